@@ -0,0 +1,345 @@
+// The typescript compiler is bundled into a chunk of its own that is only loaded when the parser setting asks for it
+import * as ts from 'typescript';
+import { Parser, ParseResult } from './parser';
+import {
+  Token, TokenType, TOKEN_COMMENT, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_PUNCTUATION, TOKEN_STRING, TOKEN_UNKNOWN, TOKEN_WHITESPACE,
+} from './tokenizer';
+import { serializeToken, serializeTokens } from './util';
+
+/**
+ * A token along with the part of the parsed source code that it was serialized to.
+ */
+type SourceSegment = {
+  token: Token;
+  start: number;
+  end: number;
+};
+
+/**
+ * An identifier, chained identifier or string found in the syntax tree along with its position in the parsed source code.
+ */
+type SourceItem = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Code that is put in front of the statement when parsing it, for statements that are only valid inside of
+ * an object literal (`key: function(a) {`), a class body (`constructor(private a: string) {`) or a switch statement (`case a:`).
+ */
+const STATEMENT_WRAPPERS = ['', '({\n', 'class _ {\n', 'switch (_) {\n'];
+
+const IGNORED_IDENTIFIERS = ['undefined', 'NaN', 'Infinity'];
+
+/**
+ * The name of a kind of script that the typescript compiler parses, like 'TSX'. Language modules list them by name so
+ * that they do not load the typescript compiler.
+ */
+export type AstScriptKind = keyof typeof ts.ScriptKind;
+
+/**
+ * Serialize tokens back into source code and remember which part of the code each token became. Comments and unknown
+ * tokens become spaces.
+ *
+ * @param tokens The tokens of the statement
+ * @returns The source code and its segments
+ */
+function toSource(tokens: Token[]): { code: string; segments: SourceSegment[] } {
+  let code = '';
+  const segments = tokens.map((token: Token) => {
+    const start = code.length;
+    code += token.type === TOKEN_COMMENT || token.type === TOKEN_UNKNOWN ? ' ' : serializeToken(token);
+    return { token, start, end: code.length };
+  });
+  return { code, segments };
+}
+
+/**
+ * Count the syntax errors of a parsed statement. Errors at the end of the code, like the missing closing brace of
+ * a statement that continues on the next lines (`if (a) {`) or of the wrapper code, are not counted.
+ * The errors are read from the parseDiagnostics that the parser leaves on the syntax tree. They are not part of the
+ * public API of the compiler, but the public getSyntacticDiagnostics needs a whole program for a single statement.
+ *
+ * @param sourceFile The syntax tree of the statement
+ * @returns The number of syntax errors
+ */
+function countSyntaxErrors(sourceFile: ts.SourceFile): number {
+  const { parseDiagnostics } = sourceFile as ts.SourceFile & { parseDiagnostics: ts.DiagnosticWithLocation[] };
+  return parseDiagnostics.filter((diagnostic: ts.DiagnosticWithLocation) => diagnostic.start < sourceFile.end).length;
+}
+
+/**
+ * Parse the source code of a statement with the typescript compiler. The statement is parsed as it is and
+ * with each of the STATEMENT_WRAPPERS as each script kind until it parses without errors. If it never does, the
+ * syntax tree with the fewest errors is returned.
+ *
+ * @param code The source code of the statement
+ * @param scriptKinds The kinds of scripts to try parsing the code as
+ * @returns The syntax tree and the length of the wrapper code in front of the statement
+ */
+function parseSource(code: string, scriptKinds: ts.ScriptKind[]): { sourceFile: ts.SourceFile; offset: number } {
+  let best: { sourceFile: ts.SourceFile; offset: number; errorCount: number } | undefined;
+  for (let i = 0; i < STATEMENT_WRAPPERS.length; i++) {
+    for (let j = 0; j < scriptKinds.length; j++) {
+      const wrapper = STATEMENT_WRAPPERS[i];
+      const sourceFile = ts.createSourceFile('/statement.tsx', wrapper + code, ts.ScriptTarget.Latest, true, scriptKinds[j]);
+      const errorCount = countSyntaxErrors(sourceFile);
+      if (!errorCount) return { sourceFile, offset: wrapper.length };
+      if (!best || errorCount < best.errorCount) best = { sourceFile, offset: wrapper.length, errorCount };
+    }
+  }
+  return best!;
+}
+
+/**
+ * Check whether a function body is complete, ie. it is an expression or a block with a closing brace.
+ * Missing nodes that the compiler inserts for incomplete code are empty.
+ */
+function isCompleteBody(body: ts.ConciseBody | undefined): boolean {
+  if (!body) return false;
+  if (!ts.isBlock(body)) return body.end > body.pos && !(ts.isIdentifier(body) && !body.text);
+  const closeBrace = body.getChildren().find((child: ts.Node) => child.kind === ts.SyntaxKind.CloseBraceToken);
+  return !!closeBrace && closeBrace.end > closeBrace.pos;
+}
+
+/**
+ * Check whether a node is an assignment (`a = b`, `a += b`).
+ */
+function isAssignment(node: ts.Node): boolean {
+  return ts.isBinaryExpression(node)
+    && node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment;
+}
+
+/**
+ * Check whether a node is a function expression or an arrow function that continues on the next lines (`(a) => {`),
+ * ignoring the parentheses around it.
+ */
+function isOpenFunctionExpression(node: ts.Node): boolean {
+  if (ts.isParenthesizedExpression(node)) return isOpenFunctionExpression(node.expression);
+  return (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) && !isCompleteBody(node.body);
+}
+
+/**
+ * Check whether a node is an identifier or a chain of property and element accesses that starts with an identifier
+ * or `this`, like `this.items[i].price` or `user?.name!`.
+ */
+function isIdentifierChain(node: ts.Node): boolean {
+  if (ts.isIdentifier(node)) return !!node.text;
+  if (node.kind === ts.SyntaxKind.ThisKeyword) return true;
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isNonNullExpression(node)) {
+    return isIdentifierChain(node.expression);
+  }
+  return false;
+}
+
+/**
+ * Walk the syntax tree and collect the things to log in source order: declared names (including destructured names like
+ * `{ a, b: [c] }`), parameters and referenced identifiers. Chained identifiers are collected as a whole along with
+ * the identifiers in their element accesses. Types, object keys, called functions and complete function expressions
+ * (`(a) => a * 2`) are skipped. The first identifier, called function or string is the candidate for the log id.
+ * Positions are returned relative to the statement, anything in the wrapper code in front of it is skipped.
+ *
+ * @param sourceFile The syntax tree of the statement
+ * @param offset The length of the wrapper code in front of the statement
+ * @returns The items to log and the log id candidate
+ */
+function collectItems(sourceFile: ts.SourceFile, offset: number): { items: SourceItem[]; idCandidate?: SourceItem } {
+  const items: SourceItem[] = [];
+  let idCandidate: SourceItem | undefined;
+
+  const getSourceItem = (node: ts.Node): SourceItem => ({ start: node.getStart(sourceFile) - offset, end: node.end - offset });
+  const setIdCandidate = (node: ts.Node) => {
+    const item = getSourceItem(node);
+    if (!idCandidate && item.start >= 0) idCandidate = item;
+  };
+  const addItem = (node: ts.Node) => {
+    const item = getSourceItem(node);
+    if (item.start >= 0) items.push(item);
+  };
+
+  /* eslint-disable no-use-before-define */
+  const collectBindingNames = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      if (!name.text || name.text === 'this') return;
+      setIdCandidate(name);
+      addItem(name);
+      return;
+    }
+    name.elements.forEach((element: ts.ArrayBindingElement) => {
+      if (ts.isOmittedExpression(element)) return;
+      collectBindingNames(element.name);
+      if (element.propertyName && ts.isComputedPropertyName(element.propertyName)) visit(element.propertyName.expression);
+      if (element.initializer) visit(element.initializer);
+    });
+  };
+
+  const visitChainArguments = (node: ts.Node) => {
+    if (ts.isElementAccessExpression(node)) visit(node.argumentExpression);
+    if (!ts.isIdentifier(node) && node.kind !== ts.SyntaxKind.ThisKeyword) {
+      visitChainArguments((<ts.PropertyAccessExpression | ts.ElementAccessExpression | ts.NonNullExpression>node).expression);
+    }
+  };
+
+  const visitFunction = (node: ts.SignatureDeclaration & { body?: ts.ConciseBody }) => {
+    if (node.name && node.name.getText(sourceFile)) setIdCandidate(node.name);
+    const isExpression = ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+    if (isExpression && isCompleteBody(node.body)) return;
+    node.parameters.forEach((parameter: ts.ParameterDeclaration) => {
+      collectBindingNames(parameter.name);
+      if (parameter.initializer) visit(parameter.initializer);
+    });
+    if (node.body) visit(node.body);
+  };
+  /* eslint-enable no-use-before-define */
+
+  function visit(node: ts.Node): void {
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+      setIdCandidate(node.name);
+      return;
+    }
+    if (ts.isTypeNode(node) || ts.isTypeParameterDeclaration(node) || ts.isHeritageClause(node) || ts.isDecorator(node)
+      || ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      return;
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      setIdCandidate(node);
+    } else if (isIdentifierChain(node)) {
+      setIdCandidate(node);
+      if (node.kind !== ts.SyntaxKind.ThisKeyword && !(ts.isIdentifier(node) && IGNORED_IDENTIFIERS.includes(node.text))) addItem(node);
+      visitChainArguments(node);
+    } else if (ts.isPropertyAccessExpression(node)) {
+      visit(node.expression); // The property name of `fn().a` is not logged on its own
+    } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      if (isIdentifierChain(node.expression)) {
+        setIdCandidate(node.expression);
+        visitChainArguments(node.expression);
+      } else {
+        visit(node.expression);
+      }
+      node.arguments?.forEach(visit);
+    } else if (ts.isFunctionLike(node) && (<ts.SignatureDeclaration>node).parameters) {
+      visitFunction(<ts.SignatureDeclaration & { body?: ts.ConciseBody }>node);
+    } else if (ts.isVariableDeclaration(node) || isAssignment(node)) {
+      // Names of functions that continue on the next lines (`const fn = (a) => {`) are only used as the log id
+      const name = ts.isVariableDeclaration(node) ? node.name : (<ts.BinaryExpression>node).left;
+      const value = ts.isVariableDeclaration(node) ? node.initializer : (<ts.BinaryExpression>node).right;
+      if (value && isOpenFunctionExpression(value)) setIdCandidate(name);
+      else if (ts.isVariableDeclaration(node)) collectBindingNames(node.name);
+      else visit(name);
+      if (value) visit(value);
+    } else if (ts.isPropertyAssignment(node) || ts.isPropertyDeclaration(node) || ts.isEnumMember(node)) {
+      const key = node.name && ts.isComputedPropertyName(node.name) ? node.name.expression : node.name;
+      const isMethod = !!node.initializer && isOpenFunctionExpression(node.initializer);
+      if (key && (ts.isPropertyAssignment(node) || isMethod)) setIdCandidate(key);
+      if (key !== node.name && !isMethod) visit(key);
+      if (node.initializer) visit(node.initializer);
+    } else if (ts.isClassLike(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) {
+      if (node.name) setIdCandidate(node.name);
+      node.forEachChild((child: ts.Node) => (child === node.name ? undefined : visit(child)));
+    } else if (ts.isLabeledStatement(node)) {
+      setIdCandidate(node.label);
+      visit(node.statement);
+    } else if (ts.isBreakOrContinueStatement(node) || ts.isJsxAttribute(node) && !node.initializer) {
+      // Labels and boolean jsx attributes are not logged
+    } else if (ts.isJsxOpeningLikeElement(node) || ts.isJsxClosingElement(node) || ts.isJsxAttribute(node)) {
+      node.forEachChild((child: ts.Node) => (ts.isJsxAttributes(child) || ts.isJsxExpression(child) ? visit(child) : undefined));
+    } else {
+      node.forEachChild(visit);
+    }
+  }
+
+  visit(sourceFile);
+  return { items, idCandidate };
+}
+
+/**
+ * Find the position of the first keyword that is used as the log id, like `return` or `else if`.
+ * Only keywords in front of the first identifier or string are taken into account.
+ *
+ * @param tokens The tokens of the statement
+ * @param segments The source segments of the tokens
+ * @param logIdKeywords The keywords that can be used as the log id
+ * @returns The keyword and its position in the source code
+ */
+function findLogIdKeyword(segments: SourceSegment[], logIdKeywords: string[]): { value: string; start: number } | undefined {
+  const codeSegments = segments.filter((s: SourceSegment) => ![TOKEN_WHITESPACE, TOKEN_COMMENT, TOKEN_UNKNOWN].includes(s.token.type));
+  for (let i = 0; i < codeSegments.length; i++) {
+    const { token, start } = codeSegments[i];
+    if (token.type === TOKEN_IDENTIFIER || token.type === TOKEN_STRING) return undefined;
+    if (token.type !== TOKEN_KEYWORD) continue;
+    const next = codeSegments[i + 1]?.token;
+    const combined = next?.type === TOKEN_KEYWORD ? token.value + ' ' + next.value : '';
+    if (logIdKeywords.includes(combined)) return { value: combined, start };
+    if (logIdKeywords.includes('' + token.value)) return { value: '' + token.value, start };
+    if (token.type === TOKEN_KEYWORD && next?.type === TOKEN_PUNCTUATION && next.value === '.') return undefined; // this.a
+  }
+  return undefined;
+}
+
+/**
+ * Create a token for a part of the source code. Its value is the serialized code of the tokens it covers without
+ * whitespace and comments, or the code itself if it is a part of a single token (an expression in a template string),
+ * and its position is the position of that code in the original code.
+ *
+ * @param item The part of the source code
+ * @param code The source code
+ * @param segments The source segments of the tokens
+ * @param type The type of the token
+ * @returns The token
+ */
+function createItemToken(item: SourceItem, code: string, segments: SourceSegment[], type: TokenType): Token {
+  const covered = segments.filter((s: SourceSegment) => s.start < item.end && item.start < s.end);
+  const codeTokens = covered
+    .map((s: SourceSegment) => s.token)
+    .filter((t: Token) => t.type !== TOKEN_WHITESPACE && t.type !== TOKEN_COMMENT);
+  const isPartOfToken = covered.length === 1 && (covered[0].start < item.start || item.end < covered[0].end);
+  let value: string | number = serializeTokens(codeTokens);
+  if (isPartOfToken) value = code.substring(item.start, item.end);
+  else if (type === TOKEN_STRING && codeTokens.length === 1) value = codeTokens[0].value;
+  const token: Token = { type, value };
+
+  const first = covered[0];
+  const last = covered[covered.length - 1];
+  if (first?.token.start !== undefined) {
+    token.start = first.token.start + Math.max(0, item.start - first.start);
+    token.end = last.token.end! - Math.max(0, last.end - item.end);
+    token.line = first.token.line! + code.substring(first.start, Math.max(first.start, item.start)).split('\n').length - 1;
+  }
+  return token;
+}
+
+/**
+ * Create a Parser that parses javascript and typescript statements with the typescript compiler instead of a sequence
+ * of parse steps. The tokens are serialized back into source code for parsing, and the identifiers found in
+ * the syntax tree are turned into log items. Like the parse steps it logs declared names (including destructured ones),
+ * the parameters of functions that continue on the next lines and referenced identifiers, and the log id is the first
+ * log id keyword, identifier, called function or string of the statement.
+ *
+ * @param logIdKeywords The keywords that can be used as the log id (see common.getSetDefaultIdFn)
+ * @param scriptKinds The kinds of scripts to try parsing statements as, eg. typescript and tsx
+ * @returns The Parser
+ */
+export function createAstParser(logIdKeywords: string[], scriptKinds: AstScriptKind[]): Parser {
+  const kinds = scriptKinds.map((scriptKind: AstScriptKind) => ts.ScriptKind[scriptKind]);
+  return (tokens: Token[]): ParseResult => {
+    const { code, segments } = toSource(tokens);
+    const { sourceFile, offset } = parseSource(code, kinds);
+    const { items, idCandidate } = collectItems(sourceFile, offset);
+
+    const itemTokens: Token[] = [];
+    items.forEach((item: SourceItem) => {
+      const token = createItemToken(item, code, segments, TOKEN_IDENTIFIER);
+      if (!itemTokens.some((t: Token) => t.value === token.value)) itemTokens.push(token);
+    });
+
+    const result: ParseResult = { tokens: itemTokens, logItems: itemTokens.map((t: Token) => [t]) };
+    const keyword = findLogIdKeyword(segments, logIdKeywords);
+    if (keyword && (!idCandidate || keyword.start < idCandidate.start)) {
+      result.logId = { type: TOKEN_KEYWORD, value: keyword.value };
+    } else if (idCandidate) {
+      const isString = /^['"`]/.test(code[idCandidate.start]);
+      result.logId = createItemToken(idCandidate, code, segments, isString ? TOKEN_STRING : TOKEN_IDENTIFIER);
+    }
+    return result;
+  };
+}
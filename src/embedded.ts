@@ -0,0 +1,256 @@
+import { hasLanguageModule } from './magic';
+
+/**
+ * The delimiters of template interpolations. The start and end are written around log statements as is,
+ * and matched with surrounding whitespace trimmed.
+ */
+export type InterpolationDelimiters = {
+  start: string;
+  end: string;
+};
+
+/**
+ * A region of a document whose code is in a different language than the document itself, like the `<script>` blocks
+ * of vue, svelte, astro and html files, the template interpolations (`{{ a }}`) of vue files or the fenced code blocks
+ * of markdown files.
+ *
+ * languageId: The language of the code in the region
+ * startLine: The first line of the region
+ * endLine: The last line of the region (inclusive)
+ * interpolation: (optional) The delimiters of template interpolations, if the region is a template line.
+ *                Log statements written to the region are wrapped in these.
+ */
+export type EmbeddedRegion = {
+  languageId: string;
+  startLine: number;
+  endLine: number;
+  interpolation?: InterpolationDelimiters;
+};
+
+type Block = {
+  languageId: string | null;
+  startLine: number;
+  endLine: number;
+};
+
+const EMBEDDING_LANGUAGES = ['vue', 'svelte', 'astro', 'html', 'markdown'];
+
+const FENCE_LANGUAGE_IDS: { [info: string]: string } = {
+  js: 'javascript',
+  jsx: 'javascriptreact',
+  ts: 'typescript',
+  tsx: 'typescriptreact',
+  py: 'python',
+  'c#': 'csharp',
+  cs: 'csharp',
+  'c++': 'cpp',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin',
+  rb: 'ruby',
+  sh: 'shellscript',
+  bash: 'shellscript',
+  zsh: 'shellscript',
+  shell: 'shellscript',
+};
+
+const INTERPOLATION_DELIMITERS: { [languageId: string]: InterpolationDelimiters } = {
+  vue: { start: '{{ ', end: ' }}' },
+  svelte: { start: '{', end: '}' },
+  astro: { start: '{', end: '}' },
+};
+
+/**
+ * Check whether documents of the given language embed code of other languages.
+ *
+ * @param languageId The language id of the document
+ * @returns true if the language has embedded regions
+ */
+export function isEmbeddingLanguage(languageId: string): boolean {
+  return EMBEDDING_LANGUAGES.includes(languageId);
+}
+
+/**
+ * Get the language id of the code in a script block from the attributes of its opening tag.
+ * Scripts that are not javascript or typescript (`type="application/json"`, `type="text/template"`) return null.
+ *
+ * @param attributes The attributes of the script tag, eg. ' setup lang="ts"'
+ * @param documentLanguageId The language id of the document
+ * @returns The language id of the script or null if it can not be logged in
+ */
+function getScriptLanguageId(attributes: string, documentLanguageId: string): string | null {
+  const type = /\btype\s*=\s*["']?([\w/+.-]+)/i.exec(attributes)?.[1].toLowerCase();
+  if (type && type !== 'module' && !/^(text|application)\/(javascript|ecmascript|typescript|babel)$/.test(type)) return null;
+  const lang = /\blang\s*=\s*["']?([\w-]+)/i.exec(attributes)?.[1].toLowerCase();
+  if (lang) {
+    return {
+      js: 'javascript',
+      ts: 'typescript',
+      jsx: 'javascriptreact',
+      tsx: 'typescriptreact',
+    }[lang] || lang;
+  }
+  if (type?.endsWith('typescript') || documentLanguageId === 'astro') return 'typescript';
+  return 'javascript';
+}
+
+/**
+ * Find the fenced code blocks (```` ```ts ````, `~~~python`) of a markdown document. Only the lines between the fences are
+ * included in the blocks. Blocks without a language in their info string or in a language without a language module
+ * (`json`, `mermaid`) have a null languageId.
+ *
+ * @param lines The lines of the document
+ * @returns The blocks in document order
+ */
+function findFencedBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let open: { fence: string; languageId: string | null; startLine: number } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^\s*(`{3,}|~{3,})\s*([^\s`{]*)/.exec(lines[i]);
+    if (!open) {
+      if (!match) continue;
+      const languageId = FENCE_LANGUAGE_IDS[match[2].toLowerCase()] || match[2].toLowerCase();
+      open = { fence: match[1], languageId: hasLanguageModule(languageId) ? languageId : null, startLine: i + 1 };
+    } else if (match && match[1].startsWith(open.fence) && !match[2]) {
+      if (i > open.startLine) blocks.push({ languageId: open.languageId, startLine: open.startLine, endLine: i - 1 });
+      open = null;
+    }
+  }
+  if (open && open.startLine < lines.length) {
+    blocks.push({ languageId: open.languageId, startLine: open.startLine, endLine: lines.length - 1 });
+  }
+  return blocks;
+}
+
+/**
+ * Find the `<script>` and `<style>` blocks of a document along with the frontmatter of astro files.
+ * Only the lines between the opening and closing tags are included in the blocks. Styles and scripts that
+ * can not be logged in have a null languageId. A block that is not closed yet extends to the end of the document.
+ *
+ * @param lines The lines of the document
+ * @param documentLanguageId The language id of the document
+ * @returns The blocks in document order
+ */
+function findBlocks(lines: string[], documentLanguageId: string): Block[] {
+  if (documentLanguageId === 'markdown') return findFencedBlocks(lines);
+  const blocks: Block[] = [];
+  let i = 0;
+
+  if (documentLanguageId === 'astro' && /^---\s*$/.test(lines[0] || '')) {
+    const end = lines.findIndex((line: string, j: number) => j > 0 && /^---\s*$/.test(line));
+    const endLine = end === -1 ? lines.length - 1 : end - 1;
+    if (endLine >= 1) blocks.push({ languageId: 'typescript', startLine: 1, endLine });
+    i = endLine + 2;
+  }
+
+  let open: { tag: string; languageId: string | null; startLine: number } | null = null;
+  for (; i < lines.length; i++) {
+    if (!open) {
+      const match = /<(script|style)\b([^>]*)>/i.exec(lines[i]);
+      if (!match) continue;
+      const tag = match[1].toLowerCase();
+      if (new RegExp(`</${tag}>`, 'i').test(lines[i].substring(match.index))) continue; // A one-liner
+      const languageId = tag === 'script' ? getScriptLanguageId(match[2], documentLanguageId) : null;
+      open = { tag, languageId, startLine: i + 1 };
+    } else if (new RegExp(`</${open.tag}>`, 'i').test(lines[i])) {
+      if (i > open.startLine) blocks.push({ languageId: open.languageId, startLine: open.startLine, endLine: i - 1 });
+      open = null;
+    }
+  }
+  if (open && open.startLine < lines.length) {
+    blocks.push({ languageId: open.languageId, startLine: open.startLine, endLine: lines.length - 1 });
+  }
+  return blocks;
+}
+
+/**
+ * Find the regions of a document that contain script code, ie. the `<script>` blocks, the frontmatter of astro files
+ * and the fenced code blocks of markdown files.
+ *
+ * @param lines The lines of the document
+ * @param documentLanguageId The language id of the document
+ * @returns The script regions in document order
+ */
+export function findScriptRegions(lines: string[], documentLanguageId: string): EmbeddedRegion[] {
+  return findBlocks(lines, documentLanguageId)
+    .filter((block: Block) => !!block.languageId)
+    .map((block: Block) => <EmbeddedRegion>{ ...block });
+}
+
+/**
+ * Return the code inside the template interpolations of a line of markup, eg. 'a; b.c' for '<p>{{ a }} {{ b.c }}</p>'.
+ * Svelte block tags are reduced to their expressions (`{#each items as item}` => 'items as item').
+ *
+ * @param line The line of markup
+ * @param delimiters The interpolation delimiters of the document language
+ * @returns The code of the interpolations joined by semicolons or an empty string if there are none
+ */
+export function getInterpolatedCode(line: string, delimiters: InterpolationDelimiters): string {
+  const start = delimiters.start.trim();
+  const end = delimiters.end.trim();
+  const expressions: string[] = [];
+  for (let i = line.indexOf(start); i !== -1; i = line.indexOf(start, i)) {
+    let depth = 0;
+    let j: number;
+    for (j = i + start.length; j < line.length; j++) {
+      if (depth === 0 && line.startsWith(end, j)) break;
+      if (line[j] === '{') depth++;
+      else if (line[j] === '}') depth--;
+    }
+    const expression = line.substring(i + start.length, j).replace(/^\s*[#:/@]\w+/, '').trim();
+    if (expression) expressions.push(expression);
+    i = j + end.length;
+  }
+  return expressions.join('; ');
+}
+
+/**
+ * Find the embedded region at the given line. Lines of `<script>` blocks and code fences belong to script regions,
+ * template lines that contain interpolations (`<p>{{ a }}</p>`) form single line regions that use the language of the scripts.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The number of the line to find the region for
+ * @param documentLanguageId The language id of the document
+ * @returns The region at the line or null if the line is pure markup (html, styles, template lines without interpolation, prose)
+ */
+export function getEmbeddedRegionAt(lines: string[], lineNr: number, documentLanguageId: string): EmbeddedRegion | null {
+  const blocks = findBlocks(lines, documentLanguageId);
+  const block = blocks.find((b: Block) => b.startLine <= lineNr && lineNr <= b.endLine);
+  if (block) return block.languageId ? <EmbeddedRegion>{ ...block } : null;
+
+  const interpolation = INTERPOLATION_DELIMITERS[documentLanguageId];
+  if (!interpolation || !getInterpolatedCode(lines[lineNr], interpolation)) return null;
+  const scriptBlock = blocks.find((b: Block) => !!b.languageId);
+  return {
+    languageId: scriptBlock?.languageId || getScriptLanguageId('', documentLanguageId)!,
+    startLine: lineNr,
+    endLine: lineNr,
+    interpolation,
+  };
+}
+
+/**
+ * Return the code of a line in the given region, ie. the interpolated code for template lines and the trimmed line otherwise.
+ *
+ * @param line The line of code
+ * @param region The region of the line
+ * @returns The code to parse
+ */
+export function getRegionCode(line: string, region: EmbeddedRegion): string {
+  return region.interpolation ? getInterpolatedCode(line, region.interpolation) : line.trim();
+}
+
+/**
+ * Wrap a log statement so that it can be written to the given region. Log statements written to template lines
+ * are wrapped in interpolation delimiters and have their trailing semicolon removed. The value that the log function
+ * returns is replaced with an empty string so that the template does not print `undefined`
+ * (`{{ console.log('a:', a) || '' }}`).
+ *
+ * @param statement The log statement
+ * @param region The region to write the statement to
+ * @returns The wrapped log statement
+ */
+export function wrapStatement(statement: string, region: EmbeddedRegion): string {
+  if (!region.interpolation) return statement;
+  return region.interpolation.start + statement.replace(/;\s*$/, '') + " || ''" + region.interpolation.end;
+}
@@ -1,13 +1,24 @@
 /* eslint-disable import/no-unresolved */
 import * as vscode from 'vscode';
 /* eslint-enable import/no-unresolved */
-import { ParseResult } from './parser';
+import { ParseResult, Parser } from './parser';
+import { Token, TOKEN_STRING, TOKEN_UNKNOWN } from './tokenizer';
 import {
   createLogger, Logger, LoggerConfig, validateLoggerConfig,
 } from './logger';
 import { createLogRotator, LogRotator } from './logRotator';
-import { ensureLogId, isClosingCodeBlock, isOpeningCodeBlock } from './util';
-import { clearCache, getMagicItem } from './magic';
+import {
+  canLogAboveReturn, CodeBlockPatterns, ensureLogId, findCodeBlockEnd, findFunctionHeader, findFunctionReturns, getExpressionAt,
+  getStatementRange, isClosingCodeBlock, isOpeningCodeBlock, isPureExpression, keepLogItemAt, parseExpressions,
+} from './util';
+import { clearCache, getMagicItem, MagicItem } from './magic';
+import {
+  EmbeddedRegion, findScriptRegions, getEmbeddedRegionAt, getRegionCode, isEmbeddingLanguage, wrapStatement,
+} from './embedded';
+import {
+  findTracedLines, findTraceStatements, hasTraceTag, tagTraceStatement, TraceStatement,
+} from './trace';
+import { createVariableLogItems, findVariablesInScope } from './scope';
 
 /**
  * A magical item allowing us to output a log statement with a single keypress.
@@ -17,6 +28,51 @@ export type MagicItemOverride = {
   rotateLog: LogRotator;
 }
 
+/**
+ * The MagicItem to log a line with, the embedded region of the line, if the document has embedded regions, and
+ * the parser to use (the typescript compiler parser if the parser setting asks for it and the language has one).
+ */
+type LogTarget = {
+  magic: MagicItem;
+  region: EmbeddedRegion | null;
+  parse: Parser;
+}
+
+/**
+ * A statement that may span multiple lines, like a function call with its arguments on separate lines.
+ */
+type Statement = {
+  firstLine: vscode.TextLine;
+  lastLine: vscode.TextLine;
+  code: string;
+}
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Write a message about a failure to the LogMagic output channel along with the code that caused it.
+ *
+ * @param message The message to write
+ * @param code The code that was being logged
+ */
+function writeToOutput(message: string, code: string) {
+  outputChannel?.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  outputChannel?.appendLine(`    ${code.replace(/\n/g, '\n    ')}`);
+}
+
+/**
+ * Report the characters that the tokenizer could not read to the output channel. They are skipped when parsing, so
+ * the log statement may be missing items.
+ *
+ * @param tokens The tokens of the code
+ * @param code The code that was tokenized
+ */
+function reportUnknownTokens(tokens: Token[], code: string) {
+  const unknownChars = tokens.filter((t: Token) => t.type === TOKEN_UNKNOWN).map((t: Token) => t.value);
+  if (!unknownChars.length) return;
+  writeToOutput(`Skipped characters that could not be read: ${unknownChars.join(' ')}`, code);
+}
+
 /**
  * A function for converting an editor default language setting value to its corresponding
  * languageId. (eg. converts 'C#' into 'csharp')
@@ -31,6 +87,43 @@ function languageSettingToLanguageId(setting: string | undefined): string | unde
   }[setting] || setting; // Pass through if no override found
 }
 
+/**
+ * Return the lines of the document as strings.
+ *
+ * @param document The vscode document
+ * @returns The text of each line
+ */
+function getDocumentLines(document: vscode.TextDocument): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < document.lineCount; i++) lines.push(document.lineAt(i).text);
+  return lines;
+}
+
+/**
+ * Find the MagicItem to log the given line with. In documents with embedded regions (vue, svelte, astro, html)
+ * the language of the region the line is in is used.
+ *
+ * @param document The vscode document
+ * @param line The number of the line to log
+ * @param languageId The language id of the document
+ * @param defaultId The language id to fall back to if there is no module for the language
+ * @param useAstParser Whether to parse with the typescript compiler parser. It is only loaded then.
+ * @returns The LogTarget or null if the line is in a markup region that can not be logged in
+ */
+async function getLogTarget(
+  document: vscode.TextDocument,
+  line: number,
+  languageId: string,
+  defaultId: string,
+  useAstParser: boolean,
+): Promise<LogTarget | null> {
+  const region = isEmbeddingLanguage(languageId) ? getEmbeddedRegionAt(getDocumentLines(document), line, languageId) : null;
+  if (isEmbeddingLanguage(languageId) && !region) return null;
+  const magic = await getMagicItem(region ? region.languageId : languageId, defaultId);
+  const parse = (useAstParser && await magic.loadAstParser?.()) || magic.parse;
+  return { magic, region, parse };
+}
+
 /**
  * A function for creating an indentation string from the indent size number.
  *
@@ -77,29 +170,66 @@ function findContentfulLine(document: vscode.TextDocument, selection: vscode.Sel
   return line;
 }
 
+/**
+ * Create a Statement from the given lines of the document. The code of each line is trimmed.
+ *
+ * @param document The vscode document
+ * @param start The number of the first line
+ * @param end The number of the last line
+ * @returns The Statement
+ */
+function createStatement(document: vscode.TextDocument, start: number, end: number): Statement {
+  const code: string[] = [];
+  for (let i = start; i <= end; i++) code.push(document.lineAt(i).text.trim());
+  return { firstLine: document.lineAt(start), lastLine: document.lineAt(end), code: code.join('\n') };
+}
+
+/**
+ * A function for finding the whole statement that the given line is a part of. The statement is extended over
+ * the lines before and after the line until its parentheses and brackets are balanced.
+ * Template lines of embedded regions are always single line statements.
+ *
+ * @param document The vscode document
+ * @param line The line of code that was identified as best for logging
+ * @param region The embedded region of the line, if the document has embedded regions
+ * @returns The Statement with the code of all of its lines
+ */
+function findStatement(document: vscode.TextDocument, line: vscode.TextLine, region: EmbeddedRegion | null): Statement {
+  if (region?.interpolation) return { firstLine: line, lastLine: line, code: getRegionCode(line.text, region) };
+  const range = getStatementRange(getDocumentLines(document), line.lineNumber);
+  const start = region ? Math.max(range.start, region.startLine) : range.start;
+  const end = region ? Math.min(range.end, region.endLine) : range.end;
+  return createStatement(document, start, end);
+}
+
 /**
  * A function for determining where the log statement should appear.
- * Normally it would be the line before/after the caret but since for some odd reason some languages prefer to
- * put the opening braces on their own separate lines, we have to identify a lineToLog that may not be one the
- * same line as the caret and an 'anchor line' that indicates where the log statement should go so that we avoid
- * placing a log statement between a function declaration and its opening brace.
+ * Normally it would be the line before the statement or after its last line but since for some odd reason some
+ * languages prefer to put the opening braces on their own separate lines, we have to identify an 'anchor line'
+ * that may not be the last line of the statement so that we avoid placing a log statement between a function
+ * declaration and its opening brace.
  *
  * @param document The vscode document
  * @param selection The selection representing the caret position
- * @param lineToLog The line of code that was identified as best for logging
+ * @param statement The statement that was identified as best for logging
  * @param logDirection The direction we're trying to log in
  * @returns A TextLine representing the line of code after/before which the log statement should appear
  */
-function findAnchorLine(document: vscode.TextDocument, selection: vscode.Selection, lineToLog: vscode.TextLine, logDirection = 1 | -1): vscode.TextLine {
-  if (logDirection === -1) return lineToLog;
+function findAnchorLine(
+  document: vscode.TextDocument,
+  selection: vscode.Selection,
+  statement: Statement,
+  logDirection = 1 | -1,
+): vscode.TextLine {
+  if (logDirection === -1) return statement.firstLine;
 
-  const currentLine = document.lineAt(selection.active.line);
-  if (selection.active.line > lineToLog.lineNumber) return currentLine;
-  if (document.lineCount - 1 === selection.active.line) return currentLine;
+  const lastLine = statement.lastLine;
+  if (selection.active.line > lastLine.lineNumber) return document.lineAt(selection.active.line);
+  if (document.lineCount - 1 === lastLine.lineNumber) return lastLine;
 
-  const nextLine = document.lineAt(lineToLog.lineNumber + 1);
+  const nextLine = document.lineAt(lastLine.lineNumber + 1);
   if (/^\s*[{[(]\s*$/.test(nextLine.text)) return nextLine;
-  return currentLine;
+  return lastLine;
 }
 
 /**
@@ -111,12 +241,19 @@ function findAnchorLine(document: vscode.TextDocument, selection: vscode.Selecti
  * @param lineToLog The line of code that was identified as best for logging
  * @param logAnchor The line of code that was identified as the line before/after the log statement should go
  * @param logDirection The direction of logging
+ * @param codeBlockPatterns The patterns of the language for code blocks without brackets
  * @returns A string that can be prepended to the logStatement giving it the correct indentation
  */
-function getIndentForLogStatement(editor: vscode.TextEditor, lineToLog: vscode.TextLine, logAnchor: vscode.TextLine, logDirection: 1 | -1): string {
+function getIndentForLogStatement(
+  editor: vscode.TextEditor,
+  lineToLog: vscode.TextLine,
+  logAnchor: vscode.TextLine,
+  logDirection: 1 | -1,
+  codeBlockPatterns: CodeBlockPatterns,
+): string {
   let indent: number = detectIndent(editor, lineToLog);
-  if (logDirection === 1 && isOpeningCodeBlock(logAnchor.text)) indent += 1;
-  else if (logDirection === -1 && isClosingCodeBlock(logAnchor.text)) indent += 1;
+  if (logDirection === 1 && isOpeningCodeBlock(logAnchor.text, codeBlockPatterns.opening)) indent += 1;
+  else if (logDirection === -1 && isClosingCodeBlock(logAnchor.text, codeBlockPatterns.closing)) indent += 1;
   return getIndentStr(editor, indent);
 }
 
@@ -134,14 +271,68 @@ function writeStatement(editBuilder: vscode.TextEditorEdit, statement: string, a
 }
 
 /**
- * Replace an exisitng line of code with a new statement.
+ * Replace an exisitng statement with a new statement.
  *
  * @param editBuilder The current edit in process
- * @param newStatement The statement to replace the line with
- * @param line The line of code that should be replaced
+ * @param newStatement The statement to replace the old one with
+ * @param statement The statement that should be replaced
+ */
+function replaceStatement(editBuilder: vscode.TextEditorEdit, newStatement: string, statement: Statement) {
+  editBuilder.replace(new vscode.Range(statement.firstLine.range.start, statement.lastLine.range.end), newStatement);
+}
+
+/**
+ * Group the selections that are logged with a single log statement. Non-empty selections that start on the same line
+ * are logged together with one log item per selection, every other selection is logged on its own.
+ *
+ * @param selections The selections sorted by their position in the document
+ * @returns The groups of selections
+ */
+function groupSelections(selections: vscode.Selection[]): vscode.Selection[][] {
+  const groups: vscode.Selection[][] = [];
+  selections.forEach((selection: vscode.Selection) => {
+    const group = groups[groups.length - 1];
+    if (group && !group[0].isEmpty && !selection.isEmpty && group[0].start.line === selection.start.line) group.push(selection);
+    else groups.push([selection]);
+  });
+  return groups;
+}
+
+/**
+ * Parse a statement, keeping only the log item that the caret is on (eg. the chained identifier `a.b[0].c`).
+ * The line of the caret is parsed separately to find the item at the caret column.
+ *
+ * @param magic The MagicItem of the statement's language
+ * @param parse The parser to use
+ * @param tokens The tokens of the statement
+ * @param caretLine The text of the line with the caret
+ * @param caretColumn The column of the caret
+ * @returns The ParseResult with the item at the caret or no items if the caret is not on anything to log
  */
-function replaceStatement(editBuilder: vscode.TextEditorEdit, newStatement: string, line: vscode.TextLine) {
-  editBuilder.replace(line.range, newStatement);
+function parseItemAtCaret(magic: MagicItem, parse: Parser, tokens: Token[], caretLine: string, caretColumn: number): ParseResult {
+  const lineResult = parse(magic.tokenize(caretLine));
+  return keepLogItemAt(parse(tokens), lineResult.logItems, caretColumn);
+}
+
+/**
+ * Create the log formats overriding the default ones of the languages, if they are configured.
+ * Shows an error message if the configured log formats are invalid.
+ *
+ * @param configuration The LogMagic configuration of the document
+ * @returns The MagicItemOverride or null if the default log formats should be used
+ */
+function getMagicOverride(configuration: vscode.WorkspaceConfiguration): MagicItemOverride | null {
+  const loggerConfigOverride: LoggerConfig | undefined = configuration.get('logFormats');
+  if (!loggerConfigOverride?.length) return null;
+  const errorMsg = validateLoggerConfig(loggerConfigOverride);
+  if (errorMsg) {
+    vscode.window.showErrorMessage('LogMagic: Using default configuration since the provided configuration is invalid.\n' + errorMsg);
+    return null;
+  }
+  return <MagicItemOverride>{
+    log: createLogger(loggerConfigOverride[0]),
+    rotateLog: createLogRotator(loggerConfigOverride),
+  };
 }
 
 /**
@@ -149,80 +340,117 @@ function replaceStatement(editBuilder: vscode.TextEditorEdit, newStatement: stri
  * existing ones in the given direction.
  *
  * @param logDirection Whether the function should log downwards (1) or upwards(-1)
+ * @param atCaret Whether only the identifier at the caret should be logged. Log statements are not rotated then, and
+ * nothing is logged if the caret is not on an identifier.
  * @returns a LogMagic function
  */
-function createLogMagicFn(logDirection: -1 | 1) {
+function createLogMagicFn(logDirection: -1 | 1, atCaret: boolean = false) {
   return async function logMagic() {
     const editor = vscode.window.activeTextEditor;
     if (!editor) return;
 
-    const boundEnsureLogId = (parseResult: ParseResult): ParseResult => ensureLogId(parseResult, editor.selection.active.line, logDirection);
+    const boundEnsureLogId = (parseResult: ParseResult): ParseResult => {
+      return ensureLogId(parseResult, editor.selection.active.line, logDirection);
+    };
 
     const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
     const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
     const documentLanguage = editor.document.languageId || defaultLanguage;
-
-    const magic = await getMagicItem(documentLanguage, defaultLanguage);
+    const useAstParser = configuration.get('parser') === 'typescript';
 
     // Fetch configuration overrides
 
-    const loggerConfigOverride: LoggerConfig | undefined = configuration.get('logFormats');
-    let magicOverride: MagicItemOverride | null = null;
-    if (loggerConfigOverride?.length) {
-      const errorMsg = validateLoggerConfig(loggerConfigOverride);
-      if (!errorMsg) {
-        magicOverride = <MagicItemOverride>{
-          log: createLogger(loggerConfigOverride[0]),
-          rotateLog: createLogRotator(loggerConfigOverride),
-        };
-      } else {
-        vscode.window.showErrorMessage('LogMagic: Using default configuration since the provided configuration is invalid.\n' + errorMsg);
-      }
-    }
+    const magicOverride = getMagicOverride(configuration);
 
-    // Sort selections so we can use their indexes so in case of multiple cursors we know how much previous log statements have offset the line numbers
-    const selections = editor.selections.sort((a: vscode.Selection, b: vscode.Selection) => a.active.line - b.active.line);
+    // Sort selections so we can use their indexes so in case of multiple cursors we know how much previous log statements
+    // have offset the line numbers
+    const selections = editor.selections.sort((a: vscode.Selection, b: vscode.Selection) => {
+      return a.active.line - b.active.line || a.start.character - b.start.character;
+    });
+    const groups = groupSelections(selections);
+    const targets = await Promise.all(groups.map((group: vscode.Selection[]) => {
+      return getLogTarget(editor.document, group[0].active.line, documentLanguage, defaultLanguage, useAstParser);
+    }));
+    if (targets.includes(null)) vscode.window.setStatusBarMessage('LogMagic: Can not log in markup.', 3000);
     // Callbacks for changing caret positions after outputting the log statements
     const selectionChanges: ((i: number) => vscode.Selection)[] = [];
+    let isNothingAtCaret = false;
 
     const success = await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
-      selections.forEach((selection) => {
+      groups.forEach((group, i) => {
+        const selection = group[group.length - 1];
+        const target = targets[i];
+        if (!target) {
+          selectionChanges.push(() => selection);
+          return;
+        }
+        const { magic, region, parse } = target;
+        const wrap = (statement: string) => (region ? wrapStatement(statement, region) : statement);
+        const caretOffset = region?.interpolation?.start.length || 0;
         try {
-          const lineToLog: vscode.TextLine = findContentfulLine(editor.document, selection);
-          const logAnchor: vscode.TextLine = findAnchorLine(editor.document, selection, lineToLog, logDirection);
-          const indent = getIndentForLogStatement(editor, lineToLog, logAnchor, logDirection);
+          // Selected expressions are logged as they are, so there is nothing to rotate or parse
+          const isSelection = !selection.isEmpty;
+          const lineToLog: vscode.TextLine = isSelection
+            ? editor.document.lineAt(group[0].start.line)
+            : findContentfulLine(editor.document, selection);
+          const statement: Statement = findStatement(editor.document, lineToLog, region);
+          const logAnchor: vscode.TextLine = findAnchorLine(editor.document, selection, statement, logDirection);
+          const indent = getIndentForLogStatement(editor, statement.firstLine, logAnchor, logDirection, magic.codeBlockPatterns);
+          const { code } = statement;
 
           // First try rotating the log statement. If it fails, create a new log statement
 
-          let logStatement: string | null = (magicOverride?.rotateLog || magic.rotateLog)(magic.tokenize(lineToLog.text.trim()), logDirection);
+          const rotateLog = magicOverride?.rotateLog || magic.rotateLog;
+          const tokens = isSelection ? [] : magic.tokenize(code);
+          reportUnknownTokens(tokens, code);
+          let logStatement: string | null = isSelection || atCaret ? null : rotateLog(tokens, logDirection);
           if (logStatement) {
-            replaceStatement(editBuilder, indent + logStatement, lineToLog);
+            replaceStatement(editBuilder, indent + wrap(logStatement), statement);
             selectionChanges.push((selectionIndex: number) => {
-              const localCaretPos = magic.getCaretPosition(logStatement!);
-              const caretPos: vscode.Position = logAnchor.range.start.translate(selectionIndex, indent.length + localCaretPos);
+              const localCaretPos = caretOffset + magic.getCaretPosition(logStatement!);
+              const caretPos: vscode.Position = statement.firstLine.range.start.translate(selectionIndex, indent.length + localCaretPos);
               return new vscode.Selection(caretPos, caretPos);
             });
           } else {
-            logStatement = (magicOverride?.log || magic.log)(boundEnsureLogId(magic.parse(magic.tokenize(lineToLog.text.trim()))));
-            writeStatement(editBuilder, indent + logStatement, logAnchor, logDirection);
+            const itemAtCaret = atCaret && !isSelection
+              ? parseItemAtCaret(magic, parse, tokens, editor.document.lineAt(selection.active).text, selection.active.character)
+              : undefined;
+            if (itemAtCaret && !itemAtCaret.logItems.length) {
+              isNothingAtCaret = true;
+              selectionChanges.push(() => selection);
+              return;
+            }
+            const parseResult: ParseResult = isSelection
+              ? parseExpressions(group.map((s: vscode.Selection) => {
+                const expression = editor.document.getText(s);
+                const expressionTokens = magic.tokenize(expression);
+                reportUnknownTokens(expressionTokens, expression);
+                return expressionTokens;
+              }))
+              : boundEnsureLogId(itemAtCaret || parse(tokens));
+            logStatement = (magicOverride?.log || magic.log)(parseResult);
+            writeStatement(editBuilder, indent + wrap(logStatement), logAnchor, logDirection);
             selectionChanges.push((selectionIndex: number) => {
-              const localCaretPos = magic.getCaretPosition(logStatement!);
+              const localCaretPos = caretOffset + magic.getCaretPosition(logStatement!);
               const downardsOffset = Math.max(0, logDirection) + selectionIndex;
               const caretPos: vscode.Position = logAnchor.range.start.translate(downardsOffset, indent.length + localCaretPos);
               return new vscode.Selection(caretPos, caretPos);
             });
           }
         } catch (e) {
-          console.error(e);
+          writeToOutput(`Failed to log: ${e instanceof Error ? e.message : e}`, editor.document.lineAt(selection.active.line).text);
+          vscode.window.setStatusBarMessage('LogMagic: Failed to log. See the LogMagic output for details.', 3000);
+          selectionChanges.push(() => selection);
         }
       });
     });
+    if (isNothingAtCaret) vscode.window.showInformationMessage('LogMagic: There is nothing to log at the caret.');
 
     // Move carets
 
     if (success) {
       const newSelections: vscode.Selection[] = [];
-      for (let i = 0; i < selections.length; i++) {
+      for (let i = 0; i < groups.length; i++) {
         const change = selectionChanges[i];
         if (!change) continue;
         newSelections.push(change(i));
@@ -232,29 +460,398 @@ function createLogMagicFn(logDirection: -1 | 1) {
   };
 }
 
-async function removeAllLogStatements() {
+/**
+ * Log the parameters of the function that each caret is in as the first statement of the function body, no matter
+ * where in the function the caret is. The function header is parsed like any other statement, so the function name
+ * becomes the log id. Carets inside the same function log its parameters once.
+ */
+async function logFunctionParameters() {
   const editor = vscode.window.activeTextEditor;
   if (!editor) return;
 
   const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
   const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
   const documentLanguage = editor.document.languageId || defaultLanguage;
+  const useAstParser = configuration.get('parser') === 'typescript';
+  const magicOverride = getMagicOverride(configuration);
+  const lines = getDocumentLines(editor.document);
 
-  const magic = await getMagicItem(documentLanguage, defaultLanguage);
+  // Find the function header of each caret
 
-  await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
-    for (let i = 0; i < editor.document.lineCount; i++) {
-      const line = editor.document.lineAt(i);
-      if (magic.isLogStatement(line.text)) {
-        editBuilder.delete(line.rangeIncludingLineBreak);
+  const headers: (LogTarget & { statement: Statement })[] = [];
+  const lineNrs = editor.selections.map((selection: vscode.Selection) => selection.active.line);
+  const targets = await Promise.all(lineNrs.map((lineNr: number) => {
+    return getLogTarget(editor.document, lineNr, documentLanguage, defaultLanguage, useAstParser);
+  }));
+  targets.forEach((target: LogTarget | null, i: number) => {
+    const range = target && !target.region?.interpolation ? findFunctionHeader(lines, lineNrs[i], target.region?.startLine) : null;
+    if (target && range && !headers.some((header) => header.statement.lastLine.lineNumber === range.end)) {
+      headers.push({ ...target, statement: createStatement(editor.document, range.start, range.end) });
+    }
+  });
+  if (!headers.length) {
+    vscode.window.setStatusBarMessage('LogMagic: No function found around the caret.', 3000);
+    return;
+  }
+  headers.sort((a, b) => a.statement.lastLine.lineNumber - b.statement.lastLine.lineNumber);
+
+  // Callbacks for moving the carets to the new log statements
+  const selectionChanges: ((i: number) => vscode.Selection)[] = [];
+
+  const success = await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
+    headers.forEach(({ magic, parse, statement }) => {
+      const { code, firstLine, lastLine } = statement;
+      try {
+        const tokens = magic.tokenize(code);
+        reportUnknownTokens(tokens, code);
+        const parseResult = ensureLogId(parse(tokens), lastLine.lineNumber, 1);
+        const logStatement = (magicOverride?.log || magic.log)(parseResult);
+        const indent = getIndentForLogStatement(editor, firstLine, lastLine, 1, magic.codeBlockPatterns);
+        writeStatement(editBuilder, indent + logStatement, lastLine, 1);
+        selectionChanges.push((headerIndex: number) => {
+          const caretPos = lastLine.range.start.translate(1 + headerIndex, indent.length + magic.getCaretPosition(logStatement));
+          return new vscode.Selection(caretPos, caretPos);
+        });
+      } catch (e) {
+        writeToOutput(`Failed to log function parameters: ${e instanceof Error ? e.message : e}`, code);
+        vscode.window.setStatusBarMessage('LogMagic: Failed to log. See the LogMagic output for details.', 3000);
+      }
+    });
+  });
+
+  // Move carets
+
+  if (success && selectionChanges.length) editor.selections = selectionChanges.map((change, i) => change(i));
+}
+
+/**
+ * Split the tokens of a returned expression into the returned values, eg. `a, err` in go.
+ *
+ * @param tokens The tokens of the returned expression
+ * @returns The tokens of each returned value
+ */
+function splitReturnedValues(tokens: Token[]): Token[][] {
+  const values: Token[][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value === ',') continue;
+    const value = getExpressionAt(tokens, i);
+    values.push(value);
+    i += value.length - 1;
+  }
+  return values;
+}
+
+/**
+ * Log the value of every return statement of the function that the caret is in, directly above each return statement.
+ * Returned expressions without side effects are logged as they are, others by their identifiers. The log id is the
+ * function name followed by the number of the return statement (`total return#2`).
+ * Return statements that do not start their line or are the body of a control flow statement without braces
+ * (`if (a) return b;`) are skipped, since a log statement above them would change what the code does. So are return
+ * statements that already have a log statement above them.
+ */
+async function logReturnValues() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+
+  const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
+  const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
+  const documentLanguage = editor.document.languageId || defaultLanguage;
+  const useAstParser = configuration.get('parser') === 'typescript';
+  const magicOverride = getMagicOverride(configuration);
+  const lines = getDocumentLines(editor.document);
+
+  const caretLine = editor.selection.active.line;
+  const target = await getLogTarget(editor.document, caretLine, documentLanguage, defaultLanguage, useAstParser);
+  const range = target && !target.region?.interpolation ? findFunctionHeader(lines, caretLine, target.region?.startLine) : null;
+  if (!target || !range) {
+    vscode.window.setStatusBarMessage('LogMagic: No function found around the caret.', 3000);
+    return;
+  }
+  const { magic, region, parse } = target;
+  const log = magicOverride?.log || magic.log;
+
+  // Tokenize the function from its header to the end of its body, so that positions map to lines
+
+  const bodyEnd = findCodeBlockEnd(lines, range.end, region ? region.endLine : lines.length - 1);
+  const code = lines.slice(range.start, bodyEnd + 1).join('\n');
+  const header = createStatement(editor.document, range.start, range.end);
+  let returns: Token[][];
+  let functionName: string;
+  try {
+    const headerTokens = magic.tokenize(header.code);
+    reportUnknownTokens(headerTokens, header.code);
+    const logId = parse(headerTokens).logId?.value;
+    functionName = logId ? `${logId} ` : '';
+    returns = findFunctionReturns(magic.tokenize(code), range.end - range.start);
+  } catch (e) {
+    writeToOutput(`Failed to log return values: ${e instanceof Error ? e.message : e}`, header.code);
+    vscode.window.setStatusBarMessage('LogMagic: Failed to log. See the LogMagic output for details.', 3000);
+    return;
+  }
+
+  const canLogAbove = (lineNr: number) => canLogAboveReturn(lines, lineNr, range.end) && !magic.isLogStatement(lines[lineNr - 1]);
+
+  let logged = 0;
+  const success = await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
+    returns.forEach((returnTokens: Token[], i: number) => {
+      const lineNr = range.start + returnTokens[0].line!;
+      if (!canLogAbove(lineNr)) return;
+      const expression = returnTokens.slice(1);
+      const expressionCode = code.substring(returnTokens[0].end!, returnTokens[returnTokens.length - 1].end!);
+      try {
+        const expressionTokens = magic.tokenize(expressionCode);
+        reportUnknownTokens(expressionTokens, expressionCode);
+        const parseResult = isPureExpression(expression)
+          ? parseExpressions(splitReturnedValues(expressionTokens))
+          : parse(magic.tokenize(code.substring(returnTokens[0].start!, returnTokens[returnTokens.length - 1].end!)));
+        parseResult.logId = { type: TOKEN_STRING, value: `${functionName}return#${i + 1}` };
+        const returnLine = editor.document.lineAt(lineNr);
+        const indent = getIndentStr(editor, detectIndent(editor, returnLine));
+        writeStatement(editBuilder, indent + log(parseResult), returnLine, -1);
+        logged++;
+      } catch (e) {
+        writeToOutput(`Failed to log a return value: ${e instanceof Error ? e.message : e}`, lines[lineNr]);
+      }
+    });
+  });
+
+  if (!returns.length) vscode.window.setStatusBarMessage('LogMagic: No return statements found in the function.', 3000);
+  else if (success && logged < returns.length) {
+    vscode.window.setStatusBarMessage(`LogMagic: Logged ${logged} of ${returns.length} return statements.`, 3000);
+  }
+}
+
+/**
+ * Log every variable in scope at each caret in a single log statement on the next line: the variables declared before
+ * the caret in the blocks that enclose it, the parameters of the enclosing functions, loop variables and caught
+ * exceptions.
+ */
+async function logVariablesInScope() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+
+  const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
+  const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
+  const documentLanguage = editor.document.languageId || defaultLanguage;
+  const useAstParser = configuration.get('parser') === 'typescript';
+  const magicOverride = getMagicOverride(configuration);
+  const lines = getDocumentLines(editor.document);
+
+  const selections = editor.selections.sort((a: vscode.Selection, b: vscode.Selection) => a.active.line - b.active.line);
+  const targets = await Promise.all(selections.map((selection: vscode.Selection) => {
+    return getLogTarget(editor.document, selection.active.line, documentLanguage, defaultLanguage, useAstParser);
+  }));
+  if (targets.some((target: LogTarget | null) => !target || target.region?.interpolation)) {
+    vscode.window.setStatusBarMessage('LogMagic: Can not log in markup.', 3000);
+  }
+  // Callbacks for changing caret positions after outputting the log statements
+  const selectionChanges: ((i: number) => vscode.Selection)[] = [];
+
+  const success = await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
+    selections.forEach((selection: vscode.Selection, i: number) => {
+      const target = targets[i];
+      if (!target || target.region?.interpolation) {
+        selectionChanges.push(() => selection);
+        return;
       }
+      const { magic, region, parse } = target;
+      try {
+        const lineToLog = findContentfulLine(editor.document, selection);
+        const statement = findStatement(editor.document, lineToLog, region);
+        const logAnchor = findAnchorLine(editor.document, selection, statement, 1);
+        const indent = getIndentForLogStatement(editor, statement.firstLine, logAnchor, 1, magic.codeBlockPatterns);
+        const variables = findVariablesInScope(lines, statement.lastLine.lineNumber, {
+          tokenize: magic.tokenize,
+          parse,
+          firstLine: region?.startLine,
+          declaresOnAssignment: magic.declaresOnAssignment,
+        });
+        const parseResult = ensureLogId({ tokens: [], logItems: createVariableLogItems(variables) }, logAnchor.lineNumber, 1);
+        const logStatement = (magicOverride?.log || magic.log)(parseResult);
+        writeStatement(editBuilder, indent + logStatement, logAnchor, 1);
+        selectionChanges.push((selectionIndex: number) => {
+          const caretPos = logAnchor.range.start.translate(1 + selectionIndex, indent.length + magic.getCaretPosition(logStatement));
+          return new vscode.Selection(caretPos, caretPos);
+        });
+      } catch (e) {
+        writeToOutput(`Failed to log variables in scope: ${e instanceof Error ? e.message : e}`, lines[selection.active.line]);
+        vscode.window.setStatusBarMessage('LogMagic: Failed to log. See the LogMagic output for details.', 3000);
+        selectionChanges.push(() => selection);
+      }
+    });
+  });
+
+  // Move carets
+
+  if (success) editor.selections = selectionChanges.map((change, i) => change(i));
+}
+
+/**
+ * Trace the functions of the selected lines, or of the whole document if nothing is selected: log the parameters of
+ * each function when it is entered and log its name before each of its return statements and at the end of its body.
+ * The trace statements are tagged with a comment so that untraceFunctions can remove them. In documents with embedded
+ * regions the functions of the region at the caret are traced.
+ */
+async function traceFunctions() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+
+  const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
+  const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
+  const documentLanguage = editor.document.languageId || defaultLanguage;
+  const useAstParser = configuration.get('parser') === 'typescript';
+  const magicOverride = getMagicOverride(configuration);
+  const lines = getDocumentLines(editor.document);
+
+  const target = await getLogTarget(editor.document, editor.selection.active.line, documentLanguage, defaultLanguage, useAstParser);
+  if (!target || target.region?.interpolation) {
+    vscode.window.setStatusBarMessage('LogMagic: Can not trace in markup.', 3000);
+    return;
+  }
+  const { magic, region, parse } = target;
+  const firstLine = region ? region.startLine : 0;
+  const lastLine = region ? region.endLine : lines.length - 1;
+  const { selection } = editor;
+
+  let statements: TraceStatement[];
+  try {
+    const startLine = selection.isEmpty ? firstLine : selection.start.line;
+    const endLine = selection.isEmpty ? lastLine : selection.end.line;
+    statements = findTraceStatements(lines, startLine, endLine, {
+      tokenize: magic.tokenize,
+      parse,
+      logIdKeywords: magic.logIdKeywords,
+      firstLine,
+      lastLine,
+      isTraced: hasTraceTag,
+    });
+  } catch (e) {
+    writeToOutput(`Failed to trace functions: ${e instanceof Error ? e.message : e}`, lines.slice(firstLine, lastLine + 1).join('\n'));
+    vscode.window.setStatusBarMessage('LogMagic: Failed to trace. See the LogMagic output for details.', 3000);
+    return;
+  }
+  if (!statements.length) {
+    vscode.window.setStatusBarMessage('LogMagic: No functions to trace.', 3000);
+    return;
+  }
+
+  const log = magicOverride?.log || magic.log;
+  await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
+    statements.forEach((statement: TraceStatement) => {
+      const indentSize = detectIndent(editor, editor.document.lineAt(statement.indentLine)) + (statement.indentInside ? 1 : 0);
+      const indent = getIndentStr(editor, indentSize);
+      const logStatement = tagTraceStatement(log(statement.parseResult), magic.lineComment);
+      writeStatement(editBuilder, indent + logStatement, editor.document.lineAt(statement.line), statement.direction);
+    });
+  });
+  const tracedCount = statements.filter((statement: TraceStatement) => statement.direction === 1).length;
+  vscode.window.setStatusBarMessage(`LogMagic: Traced ${tracedCount} function${tracedCount === 1 ? '' : 's'}.`, 3000);
+}
+
+/**
+ * Remove the trace statements written by traceFunctions from the selected lines, or from the whole document if nothing
+ * is selected. Other log statements are left alone.
+ */
+async function untraceFunctions() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+
+  const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
+  const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
+  const { selection } = editor;
+
+  // Trace statements are found by their tag, since they may have been written with the configured log formats
+  const lines = getDocumentLines(editor.document);
+  const tracedLines: number[] = [];
+  findDocumentRegions(editor.document, defaultLanguage).forEach((region: EmbeddedRegion) => {
+    const startLine = selection.isEmpty ? region.startLine : Math.max(region.startLine, selection.start.line);
+    const endLine = selection.isEmpty ? region.endLine : Math.min(region.endLine, selection.end.line);
+    tracedLines.push(...findTracedLines(lines, startLine, endLine));
+  });
+  await editor.edit((editBuilder: vscode.TextEditorEdit): void => {
+    tracedLines.forEach((lineNr: number) => editBuilder.delete(editor.document.lineAt(lineNr).rangeIncludingLineBreak));
+  });
+}
+
+/**
+ * Find the regions of a document that contain code. In documents with embedded regions these are the script regions,
+ * otherwise it is the whole document.
+ *
+ * @param document The vscode document
+ * @param defaultLanguage The language id to use if the document has none
+ * @returns The regions of code
+ */
+function findDocumentRegions(document: vscode.TextDocument, defaultLanguage: string): EmbeddedRegion[] {
+  const documentLanguage = document.languageId || defaultLanguage;
+  return isEmbeddingLanguage(documentLanguage)
+    ? findScriptRegions(getDocumentLines(document), documentLanguage)
+    : [{ languageId: documentLanguage, startLine: 0, endLine: document.lineCount - 1 }];
+}
+
+/**
+ * Find the log statements of a document. In documents with embedded regions only the script regions are searched.
+ *
+ * @param document The vscode document
+ * @param defaultLanguage The language id to fall back to if there is no module for the language
+ * @returns The lines that are log statements
+ */
+async function findLogStatements(document: vscode.TextDocument, defaultLanguage: string): Promise<vscode.TextLine[]> {
+  const regions = findDocumentRegions(document, defaultLanguage);
+  const magicItems = await Promise.all(regions.map((region: EmbeddedRegion) => getMagicItem(region.languageId, defaultLanguage)));
+
+  const lines: vscode.TextLine[] = [];
+  regions.forEach((region: EmbeddedRegion, regionIndex: number) => {
+    for (let i = region.startLine; i <= region.endLine; i++) {
+      const line = document.lineAt(i);
+      if (magicItems[regionIndex].isLogStatement(line.text)) lines.push(line);
     }
   });
+  return lines;
+}
+
+/**
+ * Find the notebook that the given document is a cell of.
+ *
+ * @param document The vscode document
+ * @returns The notebook or undefined if the document is not a notebook cell
+ */
+function findNotebook(document: vscode.TextDocument): vscode.NotebookDocument | undefined {
+  return vscode.workspace.notebookDocuments.find((notebook: vscode.NotebookDocument) => {
+    return notebook.getCells().some((cell: vscode.NotebookCell) => cell.document === document);
+  });
+}
+
+async function removeAllLogStatements() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) return;
+
+  const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('logMagic', editor.document);
+  const defaultLanguage = languageSettingToLanguageId(configuration.get('defaultLanguage')) || 'javascript';
+
+  // Notebook cells are documents of their own, so the other cells are only included if configured
+  const notebook = configuration.get('removeFromAllNotebookCells') ? findNotebook(editor.document) : undefined;
+  const documents = notebook ? notebook.getCells().map((cell: vscode.NotebookCell) => cell.document) : [editor.document];
+
+  const logStatements = await Promise.all(documents.map((document: vscode.TextDocument) => findLogStatements(document, defaultLanguage)));
+  const edit = new vscode.WorkspaceEdit();
+  documents.forEach((document: vscode.TextDocument, i: number) => {
+    logStatements[i].forEach((line: vscode.TextLine) => edit.delete(document.uri, line.rangeIncludingLineBreak));
+  });
+  await vscode.workspace.applyEdit(edit);
 }
 
 export function activate(context: vscode.ExtensionContext) {
+  outputChannel = vscode.window.createOutputChannel('LogMagic');
+  context.subscriptions.push(outputChannel);
   context.subscriptions.push(vscode.commands.registerCommand('logmagic.logDown', createLogMagicFn(1)));
   context.subscriptions.push(vscode.commands.registerCommand('logmagic.logUp', createLogMagicFn(-1)));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.logIdentifierAtCaret', createLogMagicFn(1, true)));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.logIdentifierAtCaretUp', createLogMagicFn(-1, true)));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.logFunctionParameters', logFunctionParameters));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.logReturnValues', logReturnValues));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.logVariablesInScope', logVariablesInScope));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.traceFunctions', traceFunctions));
+  context.subscriptions.push(vscode.commands.registerCommand('logmagic.untraceFunctions', untraceFunctions));
   context.subscriptions.push(vscode.commands.registerCommand('logmagic.removeAllLogStatements', removeAllLogStatements));
 }
 
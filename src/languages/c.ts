@@ -0,0 +1,258 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock, PARENS_EXT } from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'switch', 'case', 'return', 'for', 'while', 'do', 'continue', 'break', 'goto'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const IDENTIFIER_CHAIN_CHARS = ['.', '->', '::'];
+const NUMBER_REGEX = /^-?[0-9]+('[0-9]+)*(\.[0-9]+)?(e-?[0-9]+)?(ull|llu|ul|lu|ll|u|l|f)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x|0b)[0-9a-f]+('[0-9a-f]+)*(ull|llu|ul|lu|ll|u|l)?/i;
+const TYPE_KEYWORDS = ['void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'bool', '_Bool', 'auto'];
+const TYPE_QUALIFIERS = [
+  'const', 'volatile', 'static', 'extern', 'register', 'inline', 'restrict', 'struct', 'enum', 'union',
+  'constexpr', 'mutable', 'virtual', 'explicit', 'typename', 'thread_local',
+];
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}()#',
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_' + '1234567890',
+  OPERATOR: '-+/*%=<>!|&^?:~',
+  STRING_DELIM: "\"'",
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    ...TYPE_KEYWORDS, ...TYPE_QUALIFIERS,
+    'break', 'case', 'continue', 'default', 'do', 'else', 'for', 'goto', 'if', 'return', 'sizeof',
+    'switch', 'typedef', 'while', 'NULL', 'true', 'false',
+  ],
+};
+
+function isOperator(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_OPERATOR && token.value === value;
+}
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for preprocessor directives. Object-like macro definitions (`#define MAX_SIZE 64`)
+ * only leave the name of the macro to log, all other directives (`#include <stdio.h>`) leave nothing.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removePreprocessorDirectives: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  if (!isPunctuation(tokens[0], '#')) return;
+  const isMacroDefinition = tokens[1]?.value === 'define' && tokens[2]?.type === TOKEN_IDENTIFIER && !isPunctuation(tokens[3], '(');
+  result.tokens = isMacroDefinition ? [tokens[2]] : [];
+};
+
+/**
+ * A ParseStep function for removing templates (`<...>`), like `std::vector<int>` or `std::map<std::string, Foo*>`.
+ * Like the generic removal in csharp, it only removes blocks that contain nothing but types, commas and numbers.
+ * `>>` is split into two `>` tokens first so that nested templates can be matched.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTemplates: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  if (!tokens.find((t: Token) => isOperator(t, '<'))) return;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isOperator(tokens[i], '>>')) continue;
+    tokens.splice(i, 1, { type: TOKEN_OPERATOR, value: '>' }, { type: TOKEN_OPERATOR, value: '>' });
+  }
+
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (!isOperator(tokens[i], '<')) continue;
+    const block = getCodeBlockAt(tokens, i, 1, PARENS_EXT);
+    if (!isCompleteCodeBlock(block)) continue;
+    if (!block.every((t: Token, j: number) => {
+      return j === 0 || j === block.length - 1
+        || t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD || t.type === TOKEN_NUMBER
+        || isPunctuation(t, ',') || isOperator(t, '*') || isOperator(t, '&');
+    })) continue;
+    tokens.splice(i, block.length);
+  }
+};
+
+/**
+ * Build a type hint out of the tokens of a declared type, eg. `const char *` becomes 'char*'.
+ * Qualifiers are left out and all pointers other than `char*` are simply '*'. References are ignored.
+ *
+ * @param typeTokens The tokens of the type
+ * @param isArray Whether the declarator was an array
+ * @returns The type hint
+ */
+function createTypeHint(typeTokens: Token[], isArray: boolean): string {
+  const baseType = typeTokens
+    .filter((t: Token) => t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD && !TYPE_QUALIFIERS.includes('' + t.value))
+    .map((t: Token) => t.value)
+    .join(' ');
+  const pointerCount = typeTokens.filter((t: Token) => t.type === TOKEN_OPERATOR).map((t: Token) => '' + t.value)
+    .join('')
+    .split('')
+    .filter((c: string) => c === '*').length + (isArray ? 1 : 0);
+  if (!pointerCount) return baseType;
+  return baseType === 'char' && pointerCount === 1 ? 'char*' : '*';
+}
+
+/**
+ * A ParseStep function for removing the types of declarations (`const Foo* a`, `int& b`, `unsigned long n = 0`, `int add(int a, int b)`).
+ * The declared identifier is left in place and the type is attached to it as a type hint so that a matching printf format
+ * specifier can be used for it. Array sizes (`char name[32]`) are removed as well.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeDeclarationTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const SEGMENT_STARTS = ['(', ',', ';', '{', '}'];
+  const isTypePart = (t: Token) => t.type === TOKEN_IDENTIFIER
+    || t.type === TOKEN_KEYWORD && (TYPE_KEYWORDS.includes('' + t.value) || TYPE_QUALIFIERS.includes('' + t.value));
+  const isDeclaratorOperator = (t: Token) => t.type === TOKEN_OPERATOR && /^[*&]+$/.test('' + t.value);
+  const isDeclaratorEnd = (t: Token | undefined) => !t || isOperator(t, '=') || isOperator(t, ':')
+    || ['[', '(', ')', ',', ';', '{'].some((p: string) => isPunctuation(t, p));
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (i > 0 && !SEGMENT_STARTS.some((p: string) => isPunctuation(tokens[i - 1], p))) continue;
+    // Read the type and the pointer/reference operators
+    let j = i;
+    while (j < tokens.length && (isTypePart(tokens[j]) || isDeclaratorOperator(tokens[j]))) j++;
+    // The last identifier read is the declarator, everything before it is the type
+    let declaratorPos = j - 1;
+    while (declaratorPos > i && isDeclaratorOperator(tokens[declaratorPos])) declaratorPos--;
+    const declarator = tokens[declaratorPos];
+    if (declaratorPos <= i || declaratorPos !== j - 1 || declarator.type !== TOKEN_IDENTIFIER || !isDeclaratorEnd(tokens[j])) continue;
+    if (!tokens.slice(i, declaratorPos).some(isTypePart)) continue;
+
+    // Array declarators, possibly already combined with their size by combineBracketNotation
+    const sizePos = ('' + declarator.value).indexOf('[');
+    let isArray = sizePos !== -1;
+    if (isArray) declarator.value = ('' + declarator.value).substring(0, sizePos);
+    while (isPunctuation(tokens[j], '[')) {
+      isArray = true;
+      const block = getCodeBlockAt(tokens, j);
+      if (!isCompleteCodeBlock(block)) break;
+      tokens.splice(j, block.length);
+    }
+
+    declarator.typeHint = createTypeHint(tokens.slice(i, declaratorPos), isArray);
+    tokens.splice(i, declaratorPos - i);
+  }
+};
+
+/**
+ * A ParseStep function for removing C-style type casts (`(const char*) data`, `(int) x`).
+ * A parenthesized type is considered a cast if it is followed by an identifier, a number or an opening paren.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypeCasts: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isTypePart = (t: Token) => t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD && t.value !== 'sizeof'
+    || t.type === TOKEN_OPERATOR && /^[*&]+$/.test('' + t.value);
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '(')) continue;
+    const prev = tokens[i - 1];
+    if (prev && (prev.type === TOKEN_IDENTIFIER || prev.type === TOKEN_KEYWORD && prev.value !== 'return')) continue;
+    let end = i + 1;
+    while (end < tokens.length && isTypePart(tokens[end])) end++;
+    if (!isPunctuation(tokens[end], ')')) continue;
+    const typeTokens = tokens.slice(i + 1, end);
+    const next = tokens[end + 1];
+    if (!typeTokens.length || !next) continue;
+    if (next.type !== TOKEN_IDENTIFIER && next.type !== TOKEN_NUMBER && !isPunctuation(next, '(')) continue;
+    tokens.splice(i, typeTokens.length + 2);
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.removeWhitespace,
+  common.removeComments,
+  removePreprocessorDirectives,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeTemplates,
+  removeTypeCasts,
+  removeDeclarationTypes,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const FORMAT_SPECIFIERS = {
+  int: '%d',
+  short: '%hd',
+  long: '%ld',
+  'long long': '%lld',
+  unsigned: '%u',
+  'unsigned int': '%u',
+  'unsigned long': '%lu',
+  'unsigned long long': '%llu',
+  size_t: '%zu',
+  float: '%f',
+  double: '%f',
+  char: '%c',
+  'char*': '%s',
+  '*': '%p',
+};
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'printf(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%d',
+    formatSpecifiers: FORMAT_SPECIFIERS,
+    stringSuffix: '\\n',
+  },
+  {
+    logPrefix: 'fprintf(stderr, ',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%d',
+    formatSpecifiers: FORMAT_SPECIFIERS,
+    stringSuffix: '\\n',
+  },
+];
+
+export {
+  LOG_ID_KEYWORDS,
+  MULTIWORD_KEYWORDS,
+  IDENTIFIER_CHAIN_CHARS,
+  NUMBER_REGEX,
+  HEX_NUMBER_REGEX,
+  tokenizerConfig,
+  parseSequence,
+  loggerConfig,
+  removePreprocessorDirectives,
+  removeTemplates,
+  removeTypeCasts,
+  removeDeclarationTypes,
+};
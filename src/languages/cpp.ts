@@ -0,0 +1,110 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+import {
+  LOG_ID_KEYWORDS,
+  MULTIWORD_KEYWORDS,
+  IDENTIFIER_CHAIN_CHARS,
+  NUMBER_REGEX,
+  HEX_NUMBER_REGEX,
+  tokenizerConfig as cTokenizerConfig,
+  removePreprocessorDirectives,
+  removeTemplates,
+  removeTypeCasts,
+  removeDeclarationTypes,
+} from './c';
+
+const tokenizerConfig: TokenizerConfig = {
+  ...cTokenizerConfig,
+  KEYWORD: [
+    ...cTokenizerConfig.KEYWORD,
+    'class', 'delete', 'namespace', 'new', 'noexcept', 'nullptr', 'operator', 'override', 'private',
+    'protected', 'public', 'template', 'this', 'throw', 'try', 'catch', 'using', 'final',
+  ],
+};
+
+/**
+ * A ParseStep function for removing complete lambdas (`[&](int x) { return x * factor; }`).
+ * A `[` that does not follow an identifier or a closing bracket starts a lambda capture list.
+ * Lambdas that open a block that continues on the next lines only have their capture list removed.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeLambdas: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isPunctuation = (t: Token | undefined, value: string) => t?.type === TOKEN_PUNCTUATION && t.value === value;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '[')) continue;
+    const prev = tokens[i - 1];
+    if (prev && (prev.type === TOKEN_IDENTIFIER || isPunctuation(prev, ']') || isPunctuation(prev, ')'))) continue;
+    const capture = getCodeBlockAt(tokens, i);
+    if (!isCompleteCodeBlock(capture)) continue;
+    let end = i + capture.length;
+    if (isPunctuation(tokens[end], '(')) {
+      const params = getCodeBlockAt(tokens, end);
+      if (!isCompleteCodeBlock(params)) continue;
+      end += params.length;
+    }
+    while (end < tokens.length && !isPunctuation(tokens[end], '{')) end++; // mutable, noexcept, -> return type
+    const body = getCodeBlockAt(tokens, end);
+    if (!isCompleteCodeBlock(body)) {
+      tokens.splice(i, capture.length);
+      continue;
+    }
+    tokens.splice(i, end + body.length - i);
+    i--;
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.removeWhitespace,
+  common.removeComments,
+  removePreprocessorDirectives,
+  removeLambdas,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeTemplates,
+  removeTypeCasts,
+  removeDeclarationTypes,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'std::cout << ',
+    parameterSeparator: ' << ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ' << std::endl;',
+    quoteCharacter: '"',
+    insertSpaces: true,
+  },
+  {
+    logPrefix: 'std::cerr << ',
+    parameterSeparator: ' << ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ' << std::endl;',
+    quoteCharacter: '"',
+    insertSpaces: true,
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -3,7 +3,7 @@ import {
   ParseResult, ParseSequence, ParseStep, common,
 } from '../parser';
 import {
-  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION,
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
 } from '../tokenizer';
 import { getCodeBlockAt, isCompleteCodeBlock, PARENS_EXT } from '../util';
 
@@ -16,10 +16,16 @@ const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*(ul|lu|u|l|m)?/i;
 
 const tokenizerConfig: TokenizerConfig = {
   PUNCTUATION: ',.;\\[]{}@#()~',
-  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_',
-  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_' + '_1234567890',
+  IDENTIFIER_START: /[\p{L}\p{Nl}$_]/u,
+  IDENTIFIER: /[\p{L}\p{Nl}\p{Nd}\p{Mn}\p{Mc}\p{Pc}\p{Cf}$]/u,
   OPERATOR: '-+/*%=<>!|&^?:',
   STRING_DELIM: "\"'",
+  VERBATIM_STRING_PREFIX: ['@', '$@', '@$'],
+  RAW_STRING_DELIM: ['"""'],
+  TEMPLATE_STRING_PREFIX: ['$', '$@', '@$'],
+  TEMPLATE_EXPRESSION_START: '{',
+  TEMPLATE_EXPRESSION_END: '}',
+  TEMPLATE_FORMAT_SPEC_START: ',:',
   SINGLE_LINE_COMMENT: '//',
   MULTI_LINE_COMMENT_START: '/*',
   MULTI_LINE_COMMENT_END: '*/',
@@ -41,6 +47,21 @@ const tokenizerConfig: TokenizerConfig = {
   ],
 };
 
+/**
+ * A ParseStep function for removing the `$` prefix of interpolated strings (`$"a: {a}"`, `$@"..."`) that would otherwise
+ * be mistaken for an identifier. This has to run before whitespace is removed since the prefix has to be directly
+ * followed by the string.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeInterpolatedStringPrefixes: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token, i: number) => {
+    if (t.type !== TOKEN_IDENTIFIER || t.value !== '$') return true;
+    const next = result.tokens[i + 1]?.value === '@' ? result.tokens[i + 2] : result.tokens[i + 1];
+    return next?.type !== TOKEN_STRING;
+  });
+};
+
 /**
  * A function for removing Generic notation ('<...>').
  * If it finds `&&` or `||` inside the `<...>` block it assumes it is a conditional instead and
@@ -82,6 +103,8 @@ const removeTypes: ParseStep = (result: ParseResult) => {
 };
 
 const parseSequence: ParseSequence = [
+  removeInterpolatedStringPrefixes,
+  common.insertTemplateExpressions,
   common.removeWhitespace,
   common.removeComments,
   common.getCombineConsecutiveTokensOfValueFn(TOKEN_PUNCTUATION, MULTICHAR_PUNCTUATION),
@@ -134,4 +157,6 @@ const loggerConfig: LoggerConfig = [
   },
 ];
 
-export { tokenizerConfig, parseSequence, loggerConfig };
+export {
+  LOG_ID_KEYWORDS, tokenizerConfig, parseSequence, loggerConfig,
+};
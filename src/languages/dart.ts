@@ -0,0 +1,185 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
+  TOKEN_WHITESPACE,
+} from '../tokenizer';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'switch', 'case', 'return', 'for', 'while', 'do', 'yield', 'continue', 'break'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const MULTICHAR_PUNCTUATION = [['?', '.']];
+const IDENTIFIER_CHAIN_CHARS = ['.', '?.'];
+const MODIFIERS = [
+  'final', 'const', 'late', 'var', 'static', 'required', 'covariant', 'external', 'factory', 'async', 'await', 'new',
+];
+const NUMBER_REGEX = /^-?[0-9]+(\.[0-9]+)?(e-?[0-9]+)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+/i;
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}@#()',
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_' + '1234567890',
+  OPERATOR: '-+/*%=<>!|&^?:~',
+  STRING_DELIM: "\"'",
+  MULTI_CHAR_STRING_DELIM: ["'''", '"""'],
+  TEMPLATE_STRING_DELIM: "\"'",
+  TEMPLATE_EXPRESSION_START: '${',
+  TEMPLATE_EXPRESSION_END: '}',
+  TEMPLATE_IDENTIFIER_PREFIX: '$',
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'covariant',
+    'default', 'do', 'else', 'enum', 'export', 'extends', 'extension', 'external', 'factory', 'false', 'final',
+    'finally', 'for', 'if', 'implements', 'import', 'in', 'is', 'late', 'library', 'mixin', 'new', 'null', 'on',
+    'part', 'required', 'rethrow', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typedef',
+    'var', 'void', 'while', 'with', 'yield',
+  ],
+};
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing the prefix of raw strings (`r'$notInterpolated'`), along with the template
+ * expressions read from them. This has to run before whitespace is removed since the prefix has to be directly
+ * followed by the string.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeRawStringPrefixes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type !== TOKEN_IDENTIFIER || tokens[i].value !== 'r' || tokens[i + 1].type !== TOKEN_STRING) continue;
+    delete tokens[i + 1].expressions;
+    tokens.splice(i, 1);
+  }
+};
+
+/**
+ * A ParseStep function for removing the nullable marks of types (`String? name`, `List<int>? items`) so that
+ * the type can be removed by `removeTypePrefixes`. This has to run before whitespace is removed to tell them
+ * apart from the ternary operator (`a ? b : c`), and before generics are removed since the closing `>` is read
+ * as a single operator along with the mark (`>?`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeNullableMarks: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 1; i < tokens.length - 1; i++) {
+    const t = tokens[i];
+    if (t.type !== TOKEN_OPERATOR || !/^>*\?$/.test('' + t.value) || tokens[i + 1].type !== TOKEN_WHITESPACE) continue;
+    if (t.value !== '?') {
+      tokens[i] = { ...t, value: ('' + t.value).slice(0, -1) };
+    } else if (tokens[i - 1].type === TOKEN_IDENTIFIER) {
+      tokens.splice(i, 1);
+      i--;
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing the names of named arguments in function calls (`fn(name: value)`).
+ * A name is an identifier directly followed by a colon inside parentheses, so this has to run before whitespace
+ * is removed to tell the names apart from the ternary operator (`a ? b : c`). Named parameters in function
+ * definitions (`void fn({required int a})`) are in braces and are left alone.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeArgumentNames: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  function findEnclosingBracket(index: number): number {
+    let depth = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      if (isPunctuation(tokens[i], ')') || isPunctuation(tokens[i], ']') || isPunctuation(tokens[i], '}')) depth++;
+      else if (['(', '[', '{'].some((value: string) => isPunctuation(tokens[i], value)) && depth-- === 0) return i;
+    }
+    return -1;
+  }
+
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type !== TOKEN_IDENTIFIER || tokens[i + 1].type !== TOKEN_OPERATOR || tokens[i + 1].value !== ':') continue;
+    if (!isPunctuation(tokens[findEnclosingBracket(i)], '(')) continue;
+    tokens.splice(i, 2);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing modifiers and declaration keywords (`static final a`, `required this.a`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeModifiers: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_KEYWORD || !MODIFIERS.includes('' + t.value));
+};
+
+const parseSequence: ParseSequence = [
+  removeRawStringPrefixes,
+  common.insertTemplateExpressions,
+  removeNullableMarks,
+  common.removeGenerics,
+  removeArgumentNames,
+  common.removeWhitespace,
+  common.removeComments,
+  common.removeAnnotations,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_PUNCTUATION, MULTICHAR_PUNCTUATION),
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeModifiers,
+  common.removeTypeChecks,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.removeTypePrefixes,
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeLambdas,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'print(',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: ');',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'debugPrint(',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: ');',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'log(',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: ');',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    interpolate: true,
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,232 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'switch', 'case', 'select', 'return', 'for', 'go', 'defer', 'continue', 'break'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const IDENTIFIER_CHAIN_CHARS = ['.'];
+const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?(i)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*/i;
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}()',
+  IDENTIFIER_START: /[\p{L}_]/u,
+  IDENTIFIER: /[\p{L}\p{Nd}_]/u,
+  OPERATOR: '-+/*%=<>!|&^:~',
+  STRING_DELIM: "\"'`",
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough',
+    'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range',
+    'return', 'select', 'struct', 'switch', 'type', 'var', 'nil', 'true', 'false', 'iota',
+    'any', 'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64', 'int',
+    'int8', 'int16', 'int32', 'int64', 'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32',
+    'uint64', 'uintptr',
+  ],
+};
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+function isKeyword(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_KEYWORD && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing slice, array and map key types (`[]int`, `[4]byte`, `map[string]T`).
+ * Square brackets that do not directly follow an identifier or a closing bracket are not indexing anything,
+ * so they must be a part of a type. This has to run before whitespace is removed.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeSliceTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '[')) continue;
+    const prev = tokens[i - 1];
+    if (prev && (prev.type === TOKEN_IDENTIFIER || isPunctuation(prev, ']') || isPunctuation(prev, ')'))) continue;
+    const block = getCodeBlockAt(tokens, i);
+    if (!isCompleteCodeBlock(block)) continue;
+    tokens.splice(i, block.length);
+    // The value type of a map
+    if (isKeyword(prev, 'map') && tokens[i]?.type === TOKEN_IDENTIFIER) tokens.splice(i, 1);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing types from function signatures.
+ * It removes the method receiver (`func (r *Recv) Name(...)`), the parameter types and the result types.
+ * If none of the parameters have a separate type, the parameters are unnamed and are removed completely.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeFunctionSignatureTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isKeyword(tokens[i], 'func')) continue;
+    let parenPos = i + 1;
+
+    // Method receiver
+    if (isPunctuation(tokens[parenPos], '(') && tokens[parenPos + 1]?.type === TOKEN_IDENTIFIER
+      && tokens[parenPos + 2] && !isPunctuation(tokens[parenPos + 2], ',') && !isPunctuation(tokens[parenPos + 2], ')')) {
+      const receiver = getCodeBlockAt(tokens, parenPos);
+      if (!isCompleteCodeBlock(receiver)) continue;
+      if (tokens[parenPos + receiver.length]?.type === TOKEN_IDENTIFIER) tokens.splice(parenPos, receiver.length);
+    }
+    if (tokens[parenPos]?.type === TOKEN_IDENTIFIER) parenPos++; // Function name
+    if (!isPunctuation(tokens[parenPos], '(')) continue;
+
+    const params = getCodeBlockAt(tokens, parenPos);
+    if (!isCompleteCodeBlock(params)) continue;
+
+    // Split the parameters into segments at the top level commas
+    const segments: Token[][] = [[]];
+    for (let j = 1; j < params.length - 1; j++) {
+      const block = getCodeBlockAt(params, j);
+      if (isCompleteCodeBlock(block)) {
+        Array.prototype.push.apply(segments[segments.length - 1], block);
+        j += block.length - 1;
+      } else if (isPunctuation(params[j], ',')) {
+        segments.push([]);
+      } else {
+        segments[segments.length - 1].push(params[j]);
+      }
+    }
+    const isNamed = segments.some((segment: Token[]) => segment.length > 1);
+    const names: Token[] = [];
+    segments.forEach((segment: Token[]) => {
+      if (!isNamed || !segment.length) return;
+      if (names.length) names.push({ type: TOKEN_PUNCTUATION, value: ',' });
+      names.push(segment[0]);
+    });
+    tokens.splice(parenPos + 1, params.length - 2, ...names);
+
+    // Result types
+    const resultsPos = parenPos + names.length + 2;
+    let bracePos = resultsPos;
+    while (bracePos < tokens.length && !isPunctuation(tokens[bracePos], '{')) bracePos++;
+    tokens.splice(resultsPos, bracePos - resultsPos);
+  }
+};
+
+/**
+ * A ParseStep function for removing the type from `var` and `const` declarations (`var a, b Foo = x, y`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeDeclarationTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  if (!isKeyword(tokens[0], 'var') && !isKeyword(tokens[0], 'const')) return;
+  let i = 1;
+  while (tokens[i]?.type === TOKEN_IDENTIFIER && isPunctuation(tokens[i + 1], ',')) i += 2;
+  if (tokens[i]?.type !== TOKEN_IDENTIFIER) return;
+  let end = i + 1;
+  while (end < tokens.length && !(tokens[end].type === TOKEN_OPERATOR && tokens[end].value === '=')) end++;
+  tokens.splice(i + 1, end - i - 1);
+};
+
+/**
+ * A ParseStep function for removing the types and field names of composite literals (`User{Name: name}`)
+ * so that only the field values are logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeCompositeLiteralTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '{')) continue;
+    const block = getCodeBlockAt(tokens, i);
+    if (!isCompleteCodeBlock(block)) continue;
+    let end = i + block.length - 1;
+    for (let j = i + 1; j < end - 1; j++) {
+      if (tokens[j].type === TOKEN_IDENTIFIER && tokens[j + 1].type === TOKEN_OPERATOR && tokens[j + 1].value === ':') {
+        tokens.splice(j, 2);
+        end -= 2;
+      }
+    }
+    if (tokens[i - 1]?.type === TOKEN_IDENTIFIER) {
+      tokens.splice(i - 1, 1);
+      i--;
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing the blank identifier (`_`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeBlankIdentifiers: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_IDENTIFIER || t.value !== '_');
+};
+
+const parseSequence: ParseSequence = [
+  removeSliceTypes,
+  common.removeWhitespace,
+  common.removeComments,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  removeFunctionSignatureTypes,
+  removeDeclarationTypes,
+  removeCompositeLiteralTypes,
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  removeBlankIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'fmt.Printf(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%v',
+    stringSuffix: '\\n',
+  },
+  {
+    logPrefix: 'log.Printf(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%v',
+  },
+  {
+    logPrefix: 'fmt.Fprintf(os.Stderr, ',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%v',
+    stringSuffix: '\\n',
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,111 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import {
+  IDENTIFIER_CHAIN_CHARS,
+  NUMBER_REGEX,
+  HEX_NUMBER_REGEX,
+  tokenizerConfig as jvmTokenizerConfig,
+  removeModifiers,
+} from './jvm';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'switch', 'case', 'return', 'for', 'while', 'do', 'yield', 'continue', 'break'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+
+const tokenizerConfig: TokenizerConfig = {
+  ...jvmTokenizerConfig,
+  STRING_DELIM: "\"'",
+  MULTI_CHAR_STRING_DELIM: ['"""'],
+  KEYWORD: [
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float',
+    'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native',
+    'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super',
+    'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while',
+    'true', 'false', 'null', 'yield', 'record',
+  ],
+};
+
+/**
+ * A ParseStep function for removing type casts (`(String) value`).
+ * A parenthesized type is considered a cast if it is followed by an identifier or an opening paren
+ * and it does not belong to a statement like `if (ready) run();`.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypeCasts: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isPunctuation = (t: Token | undefined, value: string) => t?.type === TOKEN_PUNCTUATION && t.value === value;
+
+  for (let i = 0; i < tokens.length - 3; i++) {
+    if (!isPunctuation(tokens[i], '(') || !isPunctuation(tokens[i + 2], ')')) continue;
+    if (tokens[i + 1].type !== TOKEN_IDENTIFIER && tokens[i + 1].type !== TOKEN_KEYWORD) continue;
+    if (tokens[i + 3].type !== TOKEN_IDENTIFIER && !isPunctuation(tokens[i + 3], '(')) continue;
+    const prev = tokens[i - 1];
+    if (prev && (prev.type === TOKEN_IDENTIFIER || prev.type === TOKEN_KEYWORD && prev.value !== 'return')) continue;
+    tokens.splice(i, 3);
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.removeWhitespace,
+  common.removeComments,
+  common.removeGenerics,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  common.removeSplats,
+  common.removeAnnotations,
+  removeModifiers,
+  removeTypeCasts,
+  common.removeTypePrefixes,
+  common.getRemoveLambdasFn('->'),
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'System.out.println(',
+    parameterSeparator: ' + ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+  },
+  {
+    logPrefix: 'Log.d(TAG, ',
+    parameterSeparator: ' + ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+  },
+  {
+    logPrefix: 'log.debug(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '{}',
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
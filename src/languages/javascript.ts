@@ -1,3 +1,4 @@
+import type { AstScriptKind } from '../astParser';
 import { LoggerConfig } from '../logger';
 import {
   ParseSequence, common, ParseStep, ParseResult,
@@ -12,15 +13,23 @@ import {
 const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'switch', 'case', 'return', 'for', 'while', 'do', 'yield', 'continue', 'break'];
 const MULTIWORD_KEYWORDS = [['else', 'if']];
 const IDENTIFIER_CHAIN_CHARS = ['.'];
+const REGEX_PRECEDING_KEYWORDS = [
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'instanceof', 'new', 'delete', 'void', 'throw', 'yield', 'await',
+];
 const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?(n)?/i;
 const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*(n)?/i;
 
 const tokenizerConfig: TokenizerConfig = {
   PUNCTUATION: ',.;\\[]{}@#()',
-  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_',
-  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_' + '_1234567890',
+  IDENTIFIER_START: /[\p{ID_Start}$_]/u,
+  IDENTIFIER: /[\p{ID_Continue}$\u200c\u200d]/u,
   OPERATOR: '-+/*%=<>!|&^?:~',
   STRING_DELIM: "\"'`",
+  TEMPLATE_STRING_DELIM: '`',
+  TEMPLATE_EXPRESSION_START: '${',
+  TEMPLATE_EXPRESSION_END: '}',
+  REGEX_DELIM: '/',
+  REGEX_PRECEDING_KEYWORDS,
   SINGLE_LINE_COMMENT: '//',
   MULTI_LINE_COMMENT_START: '/*',
   MULTI_LINE_COMMENT_END: '*/',
@@ -170,6 +179,7 @@ const removeKeyIdentifier: ParseStep = (result: ParseResult): void => {
 };
 
 const parseSequence: ParseSequence = [
+  common.insertTemplateExpressions,
   common.removeWhitespace,
   common.removeComments,
   common.combineBracketNotation,
@@ -194,6 +204,8 @@ const parseSequence: ParseSequence = [
   common.storeTokensAsLogItems,
 ];
 
+const AST_SCRIPT_KINDS: AstScriptKind[] = ['JSX'];
+
 const loggerConfig: LoggerConfig = [
   {
     logPrefix: 'console.log(',
@@ -242,5 +254,6 @@ export {
   removeKeyIdentifier,
   tokenizerConfig,
   parseSequence,
+  AST_SCRIPT_KINDS,
   loggerConfig,
 };
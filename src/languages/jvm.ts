@@ -0,0 +1,78 @@
+import { ParseResult, ParseStep } from '../parser';
+import {
+  Token, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_OPERATOR, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+
+/*
+ * Parse steps and syntax shared by the languages running on the JVM (java, kotlin).
+ * This is not a language module of its own.
+ */
+
+const IDENTIFIER_CHAIN_CHARS = ['.'];
+const NUMBER_REGEX = /^-?(0b)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?(ul|u|l|d|f)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*(ul|u|l)?/i;
+const MODIFIERS = [
+  'abstract', 'final', 'private', 'protected', 'public', 'static', 'synchronized', 'transient', 'volatile',
+  'val', 'var', 'vararg', 'internal', 'open', 'override', 'lateinit', 'const', 'suspend', 'inline', 'data',
+];
+
+const tokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}@()',
+  IDENTIFIER_START: /[\p{L}\p{Nl}$_]/u,
+  IDENTIFIER: /[\p{L}\p{Nl}\p{Nd}\p{Mn}\p{Mc}\p{Pc}$]/u,
+  OPERATOR: '-+/*%=<>!|&^?:~',
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+};
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing modifiers (`final String a`, `private val a`, `vararg items: String`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeModifiers: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => {
+    return (t.type !== TOKEN_KEYWORD && t.type !== TOKEN_IDENTIFIER) || !MODIFIERS.includes('' + t.value);
+  });
+};
+
+/**
+ * A ParseStep function for removing types that are written after identifiers (`a: Int`, `fun fn(): String {`).
+ * It looks for colons that follow an identifier or a closing paren and removes everything until a `,`, `=`, `)`, `{`
+ * or `->` is found.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypeAnnotations: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  const isEnd = (t: Token) => isPunctuation(t, ',') || isPunctuation(t, ')') || isPunctuation(t, '{') || isPunctuation(t, ';')
+    || t.type === TOKEN_OPERATOR && (t.value === '=' || t.value === '->');
+
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].type !== TOKEN_OPERATOR || tokens[i].value !== ':') continue;
+    if (tokens[i - 1].type !== TOKEN_IDENTIFIER && !isPunctuation(tokens[i - 1], ')')) continue;
+    let end: number;
+    for (end = i + 1; end < tokens.length; end++) {
+      if (isEnd(tokens[end])) break;
+      const block = getCodeBlockAt(tokens, end);
+      if (isCompleteCodeBlock(block)) end += block.length - 1;
+    }
+    tokens.splice(i, end - i);
+  }
+};
+
+export {
+  IDENTIFIER_CHAIN_CHARS,
+  NUMBER_REGEX,
+  HEX_NUMBER_REGEX,
+  tokenizerConfig,
+  removeModifiers,
+  removeTypeAnnotations,
+};
@@ -0,0 +1,115 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+import {
+  IDENTIFIER_CHAIN_CHARS as JVM_IDENTIFIER_CHAIN_CHARS,
+  NUMBER_REGEX,
+  HEX_NUMBER_REGEX,
+  tokenizerConfig as jvmTokenizerConfig,
+  removeModifiers,
+  removeTypeAnnotations,
+} from './jvm';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'when', 'return', 'for', 'while', 'do', 'continue', 'break'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const MULTICHAR_PUNCTUATION = [['?', '.']];
+const IDENTIFIER_CHAIN_CHARS = [...JVM_IDENTIFIER_CHAIN_CHARS, '?.'];
+
+const tokenizerConfig: TokenizerConfig = {
+  ...jvmTokenizerConfig,
+  STRING_DELIM: "\"'",
+  MULTI_CHAR_STRING_DELIM: ['"""'],
+  TEMPLATE_STRING_DELIM: '"',
+  TEMPLATE_EXPRESSION_START: '${',
+  TEMPLATE_EXPRESSION_END: '}',
+  TEMPLATE_IDENTIFIER_PREFIX: '$',
+  KEYWORD: [
+    'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if', 'in', 'interface',
+    'is', 'null', 'object', 'package', 'return', 'super', 'this', 'throw', 'true', 'try', 'typealias',
+    'typeof', 'val', 'var', 'when', 'while', 'catch', 'finally', 'import', 'init', 'constructor',
+    'companion', 'override', 'private', 'protected', 'public', 'internal', 'open', 'abstract', 'final',
+    'lateinit', 'const', 'suspend', 'inline', 'data', 'enum', 'sealed', 'vararg',
+  ],
+};
+
+/**
+ * A ParseStep function for removing complete lambdas passed as the last argument (`list.map { it * 2 }`)
+ * along with the name of the function they are passed to, like `removeFunctionCalls` does.
+ * Lambdas that open a block that continues on the next lines (`list.forEach { item ->`) are left alone.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTrailingLambdas: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].type !== TOKEN_PUNCTUATION || tokens[i].value !== '{') continue;
+    const prev = tokens[i - 1];
+    if (prev.type !== TOKEN_IDENTIFIER && (prev.type !== TOKEN_PUNCTUATION || prev.value !== ')')) continue;
+    const block = getCodeBlockAt(tokens, i);
+    if (!isCompleteCodeBlock(block)) continue;
+    if (prev.type === TOKEN_IDENTIFIER) {
+      tokens.splice(i - 1, block.length + 1);
+      i -= 2;
+    } else {
+      tokens.splice(i, block.length);
+      i--;
+    }
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.insertTemplateExpressions,
+  common.removeWhitespace,
+  common.removeComments,
+  common.removeGenerics,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_PUNCTUATION, MULTICHAR_PUNCTUATION),
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  common.removeAnnotations,
+  removeModifiers,
+  removeTrailingLambdas,
+  common.removeTypeChecks,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  removeTypeAnnotations,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'println(',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'Log.d(TAG, ',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,144 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION,
+} from '../tokenizer';
+import { CodeBlockPatterns } from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'elseif', 'else', 'for', 'while', 'repeat', 'until', 'return', 'break', 'goto'];
+const BLOCK_KEYWORDS = ['function', 'if', 'do'];
+const IDENTIFIER_CHAIN_CHARS = ['.', ':'];
+const NUMBER_REGEX = /^-?[0-9]+(\.[0-9]+)?(e-?[0-9]+)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+/i;
+
+const CODE_BLOCK_PATTERNS: CodeBlockPatterns = {
+  opening: [
+    /\b(do|then|else|repeat)\s*$/,
+    /\bfunction\b[^{}]*\)\s*$/, // Functions have no braces
+  ],
+  closing: [/^\s*(end|until)\b(?!\s*[=.:(])/],
+};
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',;\\[]{}()',
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_' + '1234567890',
+  OPERATOR: '-+/*%=<>~^#&|.:',
+  STRING_DELIM: "\"'",
+  SINGLE_LINE_COMMENT: '--',
+  MULTI_LINE_COMMENT_START: '--[[',
+  MULTI_LINE_COMMENT_END: ']]',
+  KEYWORD: [
+    'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if', 'in', 'local', 'nil',
+    'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while', 'self',
+  ],
+};
+
+function isKeyword(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_KEYWORD && token.value === value;
+}
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing the keys of table constructors (`{ name = value, [key] = value }`).
+ * Only the keys directly inside the braces are removed, the values and bracketed key expressions are logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTableKeys: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const brackets: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const t = tokens[i];
+    if (t.type === TOKEN_PUNCTUATION && '([{'.includes('' + t.value)) brackets.push('' + t.value);
+    else if (t.type === TOKEN_PUNCTUATION && ')]}'.includes('' + t.value)) brackets.pop();
+    else if (t.type === TOKEN_IDENTIFIER && brackets[brackets.length - 1] === '{'
+      && tokens[i + 1].type === TOKEN_OPERATOR && tokens[i + 1].value === '=') {
+      tokens.splice(i, 2);
+      i--;
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing complete anonymous functions (`function(a) return a * 2 end`).
+ * Anonymous functions that continue on the next lines (`callback(function(err, data)`) are left alone
+ * so that their parameters can be logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeAnonymousFunctions: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (!isKeyword(tokens[i], 'function') || !isPunctuation(tokens[i + 1], '(')) continue;
+    let depth = 0;
+    let end: number;
+    for (end = i; end < tokens.length; end++) {
+      if (tokens[end].type === TOKEN_KEYWORD && BLOCK_KEYWORDS.includes('' + tokens[end].value)) depth++;
+      else if (isKeyword(tokens[end], 'end') && --depth === 0) break;
+    }
+    if (end === tokens.length) continue;
+    tokens.splice(i, end - i + 1);
+    i--;
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.removeWhitespace,
+  common.removeComments,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeTableKeys,
+  removeAnonymousFunctions,
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'print(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+  },
+  {
+    logPrefix: 'print(string.format(',
+    parameterSeparator: ', ',
+    identifierPrefix: 'tostring(',
+    identifierSuffix: ')',
+    logSuffix: '))',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%s',
+  },
+  {
+    logPrefix: 'print(',
+    parameterSeparator: ' .. ',
+    identifierPrefix: 'inspect(',
+    identifierSuffix: ')',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+  },
+];
+
+export {
+  tokenizerConfig, parseSequence, loggerConfig, CODE_BLOCK_PATTERNS,
+};
@@ -0,0 +1,126 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR,
+} from '../tokenizer';
+import { getCodeBlockAt, getExpressionAt, isCompleteCodeBlock } from '../util';
+
+const LOG_ID_KEYWORDS = [
+  'if', 'else if', 'elseif', 'else', 'switch', 'case', 'match', 'return', 'for', 'foreach', 'while', 'do', 'yield', 'continue', 'break',
+];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const IDENTIFIER_CHAIN_CHARS = ['->', '?->', '::'];
+const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*/i;
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',;\\[]{}@()',
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM$_' + '1234567890',
+  OPERATOR: '-+/*%=<>!|&^?:~.',
+  STRING_DELIM: "\"'`",
+  SINGLE_LINE_COMMENT: ['//', '#'],
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    'abstract', 'and', 'array', 'as', 'break', 'callable', 'case', 'catch', 'class', 'clone', 'const',
+    'continue', 'declare', 'default', 'do', 'echo', 'else', 'elseif', 'empty', 'enddeclare', 'endfor',
+    'endforeach', 'endif', 'endswitch', 'endwhile', 'enum', 'extends', 'final', 'finally', 'fn', 'for',
+    'foreach', 'function', 'global', 'goto', 'if', 'implements', 'include', 'include_once', 'instanceof',
+    'insteadof', 'interface', 'isset', 'list', 'match', 'namespace', 'new', 'or', 'print', 'private',
+    'protected', 'public', 'readonly', 'require', 'require_once', 'return', 'static', 'switch', 'throw',
+    'trait', 'try', 'unset', 'use', 'var', 'while', 'xor', 'yield', 'true', 'false', 'null', '$this',
+  ],
+};
+
+/**
+ * A ParseStep function for removing complete arrow functions (`fn($x) => $x * $factor`).
+ * The generic `removeLambdas` can not be used since `=>` is also used for the array keys in php.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeArrowFunctions: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== TOKEN_KEYWORD || tokens[i].value !== 'fn') continue;
+    const params = getCodeBlockAt(tokens, i + 1);
+    if (!isCompleteCodeBlock(params)) continue;
+    const operatorPos = i + 1 + params.length;
+    if (tokens[operatorPos]?.type !== TOKEN_OPERATOR || tokens[operatorPos].value !== '=>' || !tokens[operatorPos + 1]) continue;
+    const body = getExpressionAt(tokens, operatorPos + 1);
+    tokens.splice(i, operatorPos - i + 1 + body.length);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing the identifiers that are not variables, ie. do not include a `$`.
+ * Those are function names, type hints (`function fn(int $a): string`), class names and constants (`self::MAX`).
+ * Static properties (`self::$count`) are kept.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeNonVariables: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_IDENTIFIER || ('' + t.value).includes('$'));
+};
+
+const parseSequence: ParseSequence = [
+  common.removeWhitespace,
+  common.removeComments,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeArrowFunctions,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  removeNonVariables,
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'var_dump(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    omitItemKeys: true,
+  },
+  {
+    logPrefix: 'error_log(print_r([',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: '], true));',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    itemKeySeparator: ' => ',
+  },
+  {
+    logPrefix: '\\Log::debug(',
+    parameterSeparator: ', ',
+    identifierPrefix: "'",
+    identifierSuffix: "'",
+    logSuffix: '));',
+    quoteCharacter: "'",
+    insertSpaces: true,
+    omitItemKeys: true,
+    namesOnly: true,
+    namePrefix: '$',
+    logIdSeparator: ', compact(',
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,286 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
+} from '../tokenizer';
+import {
+  findTokenIndex, getCodeBlockAt, getExpressionAt, isCompleteCodeBlock,
+} from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'elif', 'else', 'for', 'while', 'return', 'yield', 'with', 'except', 'continue', 'break'];
+const DECLARES_ON_ASSIGNMENT = true; // `x = 1` declares x
+const MULTIWORD_KEYWORDS = [['not', 'in'], ['is', 'not']];
+const IDENTIFIER_CHAIN_CHARS = ['.'];
+const STRING_PREFIXES = ['f', 'r', 'b', 'u', 'fr', 'rf', 'br', 'rb'];
+const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?(j)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*/i;
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}()',
+  IDENTIFIER_START: /[\p{XID_Start}_]/u,
+  IDENTIFIER: /\p{XID_Continue}/u,
+  OPERATOR: '-+/*%=<>!|&^~:@',
+  STRING_DELIM: "\"'",
+  MULTI_CHAR_STRING_DELIM: ['"""', "'''"],
+  TEMPLATE_STRING_PREFIX: ['f', 'rf', 'fr'],
+  TEMPLATE_EXPRESSION_START: '{',
+  TEMPLATE_EXPRESSION_END: '}',
+  TEMPLATE_FORMAT_SPEC_START: '!:=',
+  SINGLE_LINE_COMMENT: '#',
+  KEYWORD: [
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class',
+    'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global',
+    'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise',
+    'return', 'try', 'while', 'with', 'yield', 'self',
+  ],
+};
+
+/**
+ * A ParseStep function for removing string prefixes (`f"..."`, `r"..."`, `b"..."`, ...) that would otherwise
+ * be mistaken for identifiers. This has to run before whitespace is removed since the prefix has to be
+ * directly followed by the string.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeStringPrefixes: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token, i: number) => {
+    return t.type !== TOKEN_IDENTIFIER
+      || !STRING_PREFIXES.includes(('' + t.value).toLowerCase())
+      || result.tokens[i + 1]?.type !== TOKEN_STRING;
+  });
+};
+
+/**
+ * A ParseStep function for removing complete lambda expressions (`lambda a, b: a + b`).
+ * Incomplete lambdas (`lambda a, b:`) only have the `lambda` keyword and the colon removed
+ * so that the parameters can still be logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeLambdas: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let q = 0; q < 999; q++) {
+    const lambdaPos = findTokenIndex(tokens, TOKEN_KEYWORD, 'lambda');
+    if (lambdaPos === -1) return;
+    const colonPos = findTokenIndex(tokens, TOKEN_OPERATOR, ':', lambdaPos);
+    if (colonPos === -1) {
+      tokens.splice(lambdaPos, 1);
+    } else if (colonPos === tokens.length - 1) {
+      tokens.splice(colonPos, 1);
+      tokens.splice(lambdaPos, 1);
+    } else {
+      tokens.splice(lambdaPos, colonPos - lambdaPos + getExpressionAt(tokens, colonPos + 1).length + 1);
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing the names of keyword arguments in function calls (`fn(a, key=value)`)
+ * so that only the values are logged. Parameter defaults in function definitions (`def fn(a, b=1):`) are left alone.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeKeywordArguments: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isPunc = (t: Token | undefined, value: string) => t?.type === TOKEN_PUNCTUATION && t.value === value;
+  const isCall: boolean[] = []; // A stack of flags for each open paren, telling whether it belongs to a function call
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (isPunc(t, '(')) {
+      const callee = tokens[i - 1];
+      const isDefinition = tokens[i - 2]?.type === TOKEN_KEYWORD && tokens[i - 2].value === 'def';
+      isCall.push(!!callee && !isDefinition && (callee.type === TOKEN_IDENTIFIER || isPunc(callee, ')') || isPunc(callee, ']')));
+    } else if (isPunc(t, ')')) {
+      isCall.pop();
+    } else if (t.type === TOKEN_IDENTIFIER && isCall[isCall.length - 1]
+      && (isPunc(tokens[i - 1], '(') || isPunc(tokens[i - 1], ','))
+      && tokens[i + 1]?.type === TOKEN_OPERATOR && tokens[i + 1].value === '=') {
+      tokens.splice(i, 2);
+      i--;
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing type hints.
+ * It removes parameter annotations (`def fn(a: int, b: List[int] = None)`), return annotations (`-> int:`)
+ * and variable annotations (`total: int = 0`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypeHints: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  function isOperator(token: Token | undefined, value: string) {
+    return token?.type === TOKEN_OPERATOR && token.value === value;
+  }
+  function isPunctuation(token: Token | undefined, value: string) {
+    return token?.type === TOKEN_PUNCTUATION && token.value === value;
+  }
+
+  /**
+   * Remove the tokens starting from index until one of the given end conditions is met.
+   * Complete code blocks are skipped over.
+   */
+  function removeUntil(index: number, isEnd: (t: Token) => boolean) {
+    let end: number;
+    for (end = index; end < tokens.length; end++) {
+      const block = getCodeBlockAt(tokens, end);
+      if (isCompleteCodeBlock(block)) {
+        end += block.length - 1;
+        continue;
+      }
+      if (isEnd(tokens[end])) break;
+    }
+    tokens.splice(index, end - index);
+  }
+
+  const defPos = findTokenIndex(tokens, TOKEN_KEYWORD, 'def');
+  if (defPos !== -1) {
+    const parenPos = findTokenIndex(tokens, TOKEN_PUNCTUATION, '(', defPos);
+    if (parenPos === -1) return;
+    // Parameter annotations
+    for (let i = parenPos + 1; i < tokens.length && !isPunctuation(tokens[i], ')'); i++) {
+      const block = getCodeBlockAt(tokens, i);
+      if (isCompleteCodeBlock(block)) {
+        i += block.length - 1;
+        continue;
+      }
+      if (!isOperator(tokens[i], ':')) continue;
+      removeUntil(i, (t: Token) => isPunctuation(t, ',') || isPunctuation(t, ')') || isOperator(t, '='));
+    }
+    // Return annotation
+    const arrowPos = findTokenIndex(tokens, TOKEN_OPERATOR, '->', parenPos);
+    if (arrowPos !== -1) removeUntil(arrowPos, (t: Token) => isOperator(t, ':'));
+    return;
+  }
+
+  // Variable annotation
+  if (tokens[0]?.type === TOKEN_IDENTIFIER && isOperator(tokens[1], ':') && tokens.length > 2) {
+    removeUntil(1, (t: Token) => isOperator(t, '='));
+  }
+};
+
+/**
+ * A ParseStep function for removing the variables of comprehensions and generator expressions
+ * (`[n * 2 for n in values if n > 0]`). They only exist inside the brackets of the comprehension, so logging them
+ * after the statement would raise a NameError. A `for` that is not inside brackets is a loop whose variables are logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeComprehensionVariables: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const removed = new Set<Token>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== TOKEN_KEYWORD || tokens[i].value !== 'for') continue;
+    let start = i - 1;
+    for (let depth = 0; start >= 0; start--) {
+      if (tokens[start].type !== TOKEN_PUNCTUATION) continue;
+      if (')]}'.includes('' + tokens[start].value)) depth++;
+      else if ('([{'.includes('' + tokens[start].value) && depth-- === 0) break;
+    }
+    const inPos = findTokenIndex(tokens, TOKEN_KEYWORD, 'in', i);
+    if (start < 0 || inPos === -1) continue;
+
+    const names = tokens.slice(i + 1, inPos).filter((t: Token) => t.type === TOKEN_IDENTIFIER).map((t: Token) => '' + t.value);
+    const end = start + getCodeBlockAt(tokens, start).length;
+    for (let j = start; j < end; j++) {
+      const value = '' + tokens[j].value;
+      const isBound = names.some((name: string) => value === name || value.startsWith(name + '.') || value.startsWith(name + '['));
+      if (tokens[j].type === TOKEN_IDENTIFIER && isBound) removed.add(tokens[j]);
+    }
+  }
+  result.tokens = tokens.filter((t: Token) => !removed.has(t));
+};
+
+const parseSequence: ParseSequence = [
+  removeStringPrefixes,
+  common.insertTemplateExpressions,
+  common.removeWhitespace,
+  common.removeComments,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeLambdas,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  removeKeywordArguments,
+  removeTypeHints,
+  removeComprehensionVariables,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'print(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+  },
+  {
+    logPrefix: 'logging.debug(f',
+    parameterSeparator: ' ',
+    identifierPrefix: '{',
+    identifierSuffix: '=}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    interpolate: true,
+    omitItemKeys: true,
+    alternateQuoteCharacter: "'",
+  },
+  {
+    logPrefix: 'logging.info(f',
+    parameterSeparator: ' ',
+    identifierPrefix: '{',
+    identifierSuffix: '=}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    interpolate: true,
+    omitItemKeys: true,
+    alternateQuoteCharacter: "'",
+  },
+  {
+    logPrefix: 'logging.warning(f',
+    parameterSeparator: ' ',
+    identifierPrefix: '{',
+    identifierSuffix: '=}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    interpolate: true,
+    omitItemKeys: true,
+    alternateQuoteCharacter: "'",
+  },
+  {
+    logPrefix: 'print(f',
+    parameterSeparator: ' ',
+    identifierPrefix: '{',
+    identifierSuffix: '=}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    interpolate: true,
+    omitItemKeys: true,
+    alternateQuoteCharacter: "'",
+  },
+];
+
+export {
+  tokenizerConfig, parseSequence, loggerConfig, DECLARES_ON_ASSIGNMENT,
+};
@@ -0,0 +1,208 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
+} from '../tokenizer';
+import { CodeBlockPatterns, getCodeBlockAt, isCompleteCodeBlock } from '../util';
+
+const LOG_ID_KEYWORDS = [
+  'if', 'elsif', 'else', 'unless', 'case', 'when', 'while', 'until', 'for', 'return', 'yield', 'next', 'break', 'rescue',
+];
+const DECLARES_ON_ASSIGNMENT = true; // `x = 1` declares x
+const MULTICHAR_PUNCTUATION = [['&', '.']];
+const IDENTIFIER_CHAIN_CHARS = ['.', '&.', '::'];
+const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?(r|i)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*/i;
+
+const CODE_BLOCK_PATTERNS: CodeBlockPatterns = {
+  opening: [
+    /\b(do(\s*\|[^|]*\|)?|then|else)\s*$/,
+    /^\s*def\s(?!.*\bend\s*$)(?!.*\)[^()]*[:=])/, // Not a one-liner (`def name = value`, `def name; end`)
+  ],
+  closing: [/^\s*end\b(?!\s*[=.:(])/],
+};
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}()',
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_@$',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_@' + '1234567890',
+  OPERATOR: '-+/*%=<>!|&^?:~',
+  STRING_DELIM: "\"'",
+  SYMBOL_PREFIX: ':',
+  TEMPLATE_STRING_DELIM: '"',
+  TEMPLATE_EXPRESSION_START: '#{',
+  TEMPLATE_EXPRESSION_END: '}',
+  SINGLE_LINE_COMMENT: '#',
+  KEYWORD: [
+    'BEGIN', 'END', 'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif',
+    'end', 'ensure', 'false', 'for', 'if', 'in', 'module', 'next', 'nil', 'not', 'or', 'redo', 'rescue', 'retry',
+    'return', 'self', 'super', 'then', 'true', 'undef', 'unless', 'until', 'when', 'while', 'yield',
+    'attr_reader', 'attr_writer', 'attr_accessor', 'private', 'protected', 'public', 'require', 'require_relative',
+    'include', 'extend', 'raise', 'lambda', 'proc',
+  ],
+};
+
+function isKeyword(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_KEYWORD && token.value === value;
+}
+
+function isOperator(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_OPERATOR && token.value === value;
+}
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing hash keys and keyword argument names (`{ name: value }`, `fn(key: value)`).
+ * A key is an identifier directly followed by a colon, so this has to run before whitespace is removed to tell
+ * the keys apart from the ternary operator (`a ? b : c`). In method definitions (`def fn(a, key: 1)`) the colon is
+ * removed instead since the keyword parameters are loggable.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeHashKeys: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isDefinition = tokens.some((t: Token) => isKeyword(t, 'def'));
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type !== TOKEN_IDENTIFIER || !isOperator(tokens[i + 1], ':')) continue;
+    if (isDefinition) tokens.splice(i + 1, 1);
+    else tokens.splice(i, 2);
+  }
+};
+
+/**
+ * A ParseStep function for removing complete blocks (`items.map { |x| x * 2 }`, `3.times do |i| puts i end`)
+ * along with the name of the method they are passed to, like `removeFunctionCalls` does.
+ * Blocks that continue on the next lines (`items.each do |item|`, `items.each { |item|`) only have the method name
+ * removed, leaving the block parameters to be logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeBlocks: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    const isBrace = isPunctuation(tokens[i], '{') && isOperator(tokens[i + 1], '|');
+    if (!isBrace && !isKeyword(tokens[i], 'do')) continue;
+    let length: number;
+    if (isBrace) {
+      const block = getCodeBlockAt(tokens, i);
+      length = isCompleteCodeBlock(block) ? block.length : 1;
+    } else {
+      const endPos = tokens.findIndex((t: Token, j: number) => j > i && isKeyword(t, 'end'));
+      length = endPos === -1 ? 1 : endPos - i + 1;
+    }
+    let start = i;
+    if (tokens[i - 1]?.type === TOKEN_IDENTIFIER) start--;
+    else if (isPunctuation(tokens[i - 1], ')') && tokens[i - 1 - getCodeBlockAt(tokens, i - 1, -1).length]?.type === TOKEN_IDENTIFIER) {
+      start -= getCodeBlockAt(tokens, i - 1, -1).length + 1;
+    }
+    tokens.splice(start, i - start + length);
+    i = start - 1;
+  }
+};
+
+/**
+ * A ParseStep function for removing the names of methods that are called without parentheses (`puts name`,
+ * `render json: data`). An identifier directly followed by another identifier or a literal is assumed to be
+ * such a method call. Method names in definitions (`def fn a, b`) are left alone to be used as the log id.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeCommandCalls: ParseStep = (result: ParseResult): void => {
+  const isArgument = (t: Token | undefined) => t?.type === TOKEN_IDENTIFIER || t?.type === TOKEN_STRING || t?.type === TOKEN_NUMBER
+    || t?.type === TOKEN_KEYWORD && ('' + t.value).startsWith(':');
+  result.tokens = result.tokens.filter((t: Token, i: number) => {
+    return t.type !== TOKEN_IDENTIFIER || !isArgument(result.tokens[i + 1]) || isKeyword(result.tokens[i - 1], 'def');
+  });
+};
+
+/**
+ * A ParseStep function for removing the method name from method definitions (`def name(a, b = 1)`, `def self.name a`).
+ * The log id has to be set before this is run.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeMethodNames: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (isKeyword(tokens[i], 'def') && tokens[i + 1].type === TOKEN_IDENTIFIER) tokens.splice(i + 1, 1);
+  }
+};
+
+/**
+ * A ParseStep function for setting the log id like `common.getSetDefaultIdFn` does, but skipping interpolated strings
+ * (`puts "#{user.name} signed in"`) since their expressions are logged on their own.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const setDefaultId: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  result.tokens = tokens.filter((t: Token) => t.type !== TOKEN_STRING || !t.expressions);
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS)(result);
+  result.tokens = tokens;
+};
+
+const parseSequence: ParseSequence = [
+  common.insertTemplateExpressions,
+  removeHashKeys,
+  common.removeWhitespace,
+  common.removeComments,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_PUNCTUATION, MULTICHAR_PUNCTUATION),
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeCommandCalls,
+  setDefaultId,
+  removeMethodNames,
+  removeBlocks,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'p ',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: '',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    itemKeySeparator: ': ',
+  },
+  {
+    logPrefix: 'puts ',
+    parameterSeparator: ' ',
+    identifierPrefix: '#{',
+    identifierSuffix: '.inspect}',
+    logSuffix: '',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'Rails.logger.debug(',
+    parameterSeparator: ' ',
+    identifierPrefix: '#{',
+    identifierSuffix: '.inspect}',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+];
+
+export {
+  tokenizerConfig, parseSequence, loggerConfig, CODE_BLOCK_PATTERNS, DECLARES_ON_ASSIGNMENT,
+};
@@ -0,0 +1,280 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
+} from '../tokenizer';
+import {
+  findTokenIndex, getCodeBlockAt, getExpressionAt, isCompleteCodeBlock,
+} from '../util';
+
+const LOG_ID_KEYWORDS = [
+  'if', 'if let', 'else if', 'else if let', 'else', 'match', 'return', 'for', 'while', 'while let', 'loop', 'continue', 'break',
+];
+const MULTIWORD_KEYWORDS = [['else', 'if', 'let'], ['else', 'if'], ['if', 'let'], ['while', 'let']];
+const IDENTIFIER_CHAIN_CHARS = ['.', '::'];
+const STRING_PREFIXES = ['r', 'b', 'br'];
+const NUMBER_SUFFIX = '(u8|u16|u32|u64|u128|usize|i8|i16|i32|i64|i128|isize|f32|f64)?';
+const NUMBER_REGEX = new RegExp('^-?(0b|0o)?[0-9]+(_[0-9]+)*(\\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?' + NUMBER_SUFFIX, 'i');
+const HEX_NUMBER_REGEX = new RegExp('^-?(0x)[0-9a-f]+(_[0-9a-f]+)*' + NUMBER_SUFFIX, 'i');
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}()#',
+  IDENTIFIER_START: /[\p{XID_Start}_]/u,
+  IDENTIFIER: /\p{XID_Continue}/u,
+  OPERATOR: '-+/*%=<>!|&^?:~@$',
+  STRING_DELIM: "\"'",
+  SYMBOL_PREFIX: "'",
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum',
+    'extern', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod',
+    'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super',
+    'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while', 'None',
+    'i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'u8', 'u16', 'u32', 'u64', 'u128', 'usize',
+    'f32', 'f64', 'bool', 'char', 'str',
+  ],
+};
+
+function isOperator(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_OPERATOR && token.value === value;
+}
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing string prefixes (`r"..."`, `b"..."`, `br"..."`) that would otherwise
+ * be mistaken for identifiers. This has to run before whitespace is removed since the prefix has to be
+ * directly followed by the string.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeStringPrefixes: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token, i: number) => {
+    return t.type !== TOKEN_IDENTIFIER
+      || !STRING_PREFIXES.includes('' + t.value)
+      || result.tokens[i + 1]?.type !== TOKEN_STRING;
+  });
+};
+
+/**
+ * A ParseStep function for removing macro names (`vec![...]`, `format!(...)`) so that only their arguments are logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeMacroNames: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length - 2; i++) {
+    if (tokens[i].type !== TOKEN_IDENTIFIER || !isOperator(tokens[i + 1], '!')) continue;
+    if (!isPunctuation(tokens[i + 2], '(') && !isPunctuation(tokens[i + 2], '[') && !isPunctuation(tokens[i + 2], '{')) continue;
+    tokens.splice(i, 2);
+  }
+};
+
+/**
+ * A ParseStep function for removing generics (`<...>`), like `fn foo<'a, T: Display>(...)`, `Vec<Vec<T>>` or `collect::<Vec<_>>()`.
+ * Since `>>` is read as a single token, the angle brackets are matched by counting the nesting depth.
+ * If it finds something that can not be a part of a type inside the `<...>` block it assumes it is a comparison
+ * instead and leaves it alone.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeGenerics: ParseStep = (result: ParseResult): void => {
+  const NON_TYPE_OPERATORS = ['&&', '||', '=', '==', '!=', '<=', '>='];
+  const tokens = result.tokens;
+
+  function findGenericsEnd(start: number): number {
+    let depth = 0;
+    for (let i = start; i < tokens.length; i++) {
+      const t = tokens[i];
+      if (isPunctuation(t, ';') || isPunctuation(t, '{') || isPunctuation(t, '}')) return -1;
+      if (t.type !== TOKEN_OPERATOR) continue;
+      if (NON_TYPE_OPERATORS.includes('' + t.value)) return -1;
+      if (t.value === '<' || t.value === '::<') depth++;
+      else if (t.value === '>') depth--;
+      else if (t.value === '>>') depth -= 2;
+      if (depth === 0) return i;
+      if (depth < 0) return -1;
+    }
+    return -1;
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token: Token = tokens[i];
+    if (token.type !== TOKEN_OPERATOR || (token.value !== '<' && token.value !== '::<')) continue;
+    const end = findGenericsEnd(i);
+    if (end === -1) continue;
+    tokens.splice(i, end - i + 1);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing complete closures (`|a, b| a + b`).
+ * Closures that open a block that continues on the next lines (`|a, b| {`) only have their pipes removed
+ * so that the parameters can still be logged. A pipe that follows an identifier, a literal or a closing bracket
+ * is considered a bitwise or.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeClosures: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isOperand = (t: Token | undefined) => !!t && (t.type === TOKEN_IDENTIFIER || t.type === TOKEN_NUMBER || t.type === TOKEN_STRING
+    || isPunctuation(t, ')') || isPunctuation(t, ']'));
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isOperator(tokens[i], '|') || isOperand(tokens[i - 1])) continue;
+    const endPos = findTokenIndex(tokens, TOKEN_OPERATOR, '|', i + 1);
+    if (endPos === -1) return;
+    const body = tokens[endPos + 1];
+    if (!body || isPunctuation(body, '{') && !isCompleteCodeBlock(getCodeBlockAt(tokens, endPos + 1))) {
+      tokens.splice(endPos, 1);
+      tokens.splice(i, 1);
+      return;
+    }
+    const bodyLength = isPunctuation(body, '{') ? getCodeBlockAt(tokens, endPos + 1).length : getExpressionAt(tokens, endPos + 1).length;
+    tokens.splice(i, endPos - i + 1 + bodyLength);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing type annotations (`let x: Type = ...`, `fn f(a: &str) -> Result<T> {`).
+ * It looks for colons outside of curly braces that follow an identifier or a tuple pattern and removes everything until
+ * a `,`, `=`, `)`, `;` or `{` is found. Return types are removed from `->` until the opening brace.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypes: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  const isEnd = (t: Token) => isPunctuation(t, ',') || isPunctuation(t, ')') || isPunctuation(t, ';') || isPunctuation(t, '{')
+    || isOperator(t, '=');
+
+  function removeUntilEnd(index: number, isEndFn: (t: Token) => boolean) {
+    let end: number;
+    for (end = index + 1; end < tokens.length; end++) {
+      if (isEndFn(tokens[end])) break;
+      const block = getCodeBlockAt(tokens, end);
+      if (isCompleteCodeBlock(block)) end += block.length - 1;
+    }
+    tokens.splice(index, end - index);
+  }
+
+  for (let i = 1; i < tokens.length; i++) {
+    if (isPunctuation(tokens[i], '{')) {
+      // Skip struct literals and patterns
+      const block = getCodeBlockAt(tokens, i);
+      if (!isCompleteCodeBlock(block)) return;
+      i += block.length - 1;
+      continue;
+    }
+    if (isOperator(tokens[i], '->')) {
+      removeUntilEnd(i, (t: Token) => isPunctuation(t, '{') || isPunctuation(t, ';') || t.type === TOKEN_KEYWORD && t.value === 'where');
+      continue;
+    }
+    if (!isOperator(tokens[i], ':')) continue;
+    if (tokens[i - 1].type !== TOKEN_IDENTIFIER && !isPunctuation(tokens[i - 1], ')')) continue;
+    removeUntilEnd(i, isEnd);
+  }
+};
+
+/**
+ * A ParseStep function for removing the names of structs and their field names in struct literals and patterns
+ * (`Point { x: px, y: py }`) so that only the values or bindings are logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeStructNames: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 1; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '{') || tokens[i - 1].type !== TOKEN_IDENTIFIER) continue;
+    const block = getCodeBlockAt(tokens, i);
+    if (!isCompleteCodeBlock(block)) continue;
+    let end = i + block.length - 1;
+    for (let j = i + 1; j < end - 1; j++) {
+      if (tokens[j].type === TOKEN_IDENTIFIER && isOperator(tokens[j + 1], ':')) {
+        tokens.splice(j, 2);
+        end -= 2;
+      }
+    }
+    tokens.splice(i - 1, 1);
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing the wildcard pattern (`_`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeWildcards: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_IDENTIFIER || t.value !== '_');
+};
+
+const parseSequence: ParseSequence = [
+  removeStringPrefixes,
+  common.removeWhitespace,
+  common.removeComments,
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  removeMacroNames,
+  removeGenerics,
+  removeClosures,
+  removeStructNames,
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  removeTypes,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  removeWildcards,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'println!(',
+    parameterSeparator: ' ',
+    identifierPrefix: '{',
+    identifierSuffix: ':?}',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+    positionalSpecifier: '{:?}',
+  },
+  {
+    logPrefix: 'dbg!(',
+    parameterSeparator: ', ',
+    identifierPrefix: '&',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: false,
+    omitItemKeys: true,
+  },
+  {
+    logPrefix: 'eprintln!(',
+    parameterSeparator: ', ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: ');',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '{:?}',
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,232 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_WHITESPACE,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'elif', 'else', 'for', 'select', 'while', 'until', 'case', 'return', 'exit', 'continue', 'break'];
+const DECLARATION_KEYWORDS = ['local', 'export', 'declare', 'readonly', 'typeset', 'read'];
+const STATEMENT_SEPARATORS = [';', '|', '||', '&&', '&'];
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',;\\[]{}()$',
+  // Digits and @ can start an identifier so that "$1" and "$@" are read as template identifiers inside strings
+  IDENTIFIER_START: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_@' + '1234567890',
+  IDENTIFIER: 'qwertyuiopasdfghjklzxcvbnmQWERTYUIOPASDFGHJKLZXCVBNM_@' + '1234567890',
+  OPERATOR: '-+/*%=<>!|&^?:~.',
+  STRING_DELIM: "\"'`",
+  TEMPLATE_STRING_DELIM: '"',
+  TEMPLATE_EXPRESSION_START: '${',
+  TEMPLATE_EXPRESSION_END: '}',
+  TEMPLATE_IDENTIFIER_PREFIX: '$',
+  SINGLE_LINE_COMMENT: '#',
+  KEYWORD: [
+    'if', 'then', 'else', 'elif', 'fi', 'case', 'esac', 'for', 'select', 'while', 'until', 'do', 'done', 'in',
+    'function', 'time', 'return', 'exit', 'break', 'continue', 'local', 'export', 'declare', 'readonly', 'typeset',
+    'read', 'unset', 'shift', 'source', 'eval', 'exec', 'trap', 'set', 'true', 'false',
+  ],
+};
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+function isWhitespace(token: Token | undefined): boolean {
+  return token?.type === TOKEN_WHITESPACE;
+}
+
+/**
+ * Find the closest token that is not whitespace in the given direction.
+ *
+ * @param tokens The tokens to search
+ * @param index The index to start searching from (exclusive)
+ * @param direction The direction to search in
+ * @returns The index of the token or -1 if there is none
+ */
+function findNonWhitespace(tokens: Token[], index: number, direction: -1 | 1): number {
+  for (let i = index + direction; i >= 0 && i < tokens.length; i += direction) {
+    if (!isWhitespace(tokens[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * A ParseStep function for inserting the variables referenced in double quoted strings (`"a: $a, b: ${b[@]}"`)
+ * after the string, like `common.insertTemplateExpressions` does. Each reference is inserted in the `${...}` form
+ * so that `combineVariableReferences` can handle them like any other reference.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const insertStringReferences: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    const expressions = tokens[i].expressions;
+    if (!expressions) continue;
+    const inserted: Token[] = [];
+    expressions.forEach((expression: Token[]) => {
+      inserted.push(
+        { type: TOKEN_WHITESPACE, value: ' ' },
+        { type: TOKEN_PUNCTUATION, value: '$' },
+        { type: TOKEN_PUNCTUATION, value: '{' },
+        ...expression.map((t: Token) => ({ ...t })),
+        { type: TOKEN_PUNCTUATION, value: '}' },
+      );
+    });
+    tokens.splice(i + 1, 0, ...inserted);
+    i += inserted.length;
+  }
+};
+
+/**
+ * A ParseStep function for removing the words that are not variables. In shell scripts most words are command names,
+ * arguments and flags. The words that are kept are:
+ * - variable references (`$a`, `${a}`)
+ * - assigned variables (`a=1`, `a+=(x)`)
+ * - loop variables (`for a in ...`)
+ * - declared or read variables (`local a b`, `read -r line`)
+ * - variables in arithmetic expressions (`(( count++ ))`) and array subscripts (`${a[i]}`)
+ * - function names (`name() {`, `function name {`) for the log id
+ * This has to run before whitespace is removed since assignments can not have whitespace around the `=`.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeNonVariableWords: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+
+  // Everything inside arithmetic expressions and `${...}` references is kept
+  const isInBlock: boolean[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const isArithmetic = isPunctuation(tokens[i], '(') && isPunctuation(tokens[i + 1], '(');
+    const isReference = isPunctuation(tokens[i], '$') && isPunctuation(tokens[i + 1], '{');
+    if (!isArithmetic && !isReference) continue;
+    const block = getCodeBlockAt(tokens, isArithmetic ? i : i + 1);
+    if (!isCompleteCodeBlock(block)) continue;
+    for (let j = i; j <= i + block.length; j++) isInBlock[j] = true;
+  }
+
+  function isDeclared(index: number): boolean {
+    if (tokens[index - 1]?.type === TOKEN_OPERATOR && tokens[index - 1].value === '-') return false; // A flag like `-r`
+    for (let i = index - 1; i >= 0; i--) {
+      const t = tokens[i];
+      if (t.type === TOKEN_KEYWORD) return DECLARATION_KEYWORDS.includes('' + t.value);
+      if (STATEMENT_SEPARATORS.includes('' + t.value) || isPunctuation(t, '(') || isPunctuation(t, '{')) return false;
+    }
+    return false;
+  }
+
+  function isVariable(index: number): boolean {
+    const prev = tokens[index - 1];
+    const next = tokens[index + 1];
+    if (isPunctuation(prev, '$') || isInBlock[index]) return true;
+    if (next?.type === TOKEN_OPERATOR && /^\+?=(?!=)/.test('' + next.value)) return true;
+    if (isDeclared(index)) return true;
+    const prevWord = tokens[findNonWhitespace(tokens, index, -1)];
+    if (prevWord?.type === TOKEN_KEYWORD && ['for', 'select', 'function'].includes('' + prevWord.value)) return true;
+    const nextPos = findNonWhitespace(tokens, index, 1);
+    return isPunctuation(tokens[nextPos], '(') && isPunctuation(tokens[findNonWhitespace(tokens, nextPos, 1)], ')');
+  }
+
+  result.tokens = tokens.filter((t: Token, i: number) => t.type !== TOKEN_IDENTIFIER || isVariable(i));
+};
+
+/**
+ * A ParseStep function for combining variable references (`$a`, `$1`, `$@`, `${a}`, `${a[@]}`, `${a:-default}`) into
+ * single identifiers. Only the name and the array subscript of the variable are kept (`a`, `1`, `@`, `a[@]`).
+ * The `$` of command substitutions (`$(...)`) is removed so that the variables used in them can be logged.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const combineVariableReferences: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isName = (t: Token | undefined) => t?.type === TOKEN_IDENTIFIER || t?.type === TOKEN_NUMBER;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '$')) continue;
+    const next = tokens[i + 1];
+    if (isName(next)) {
+      tokens.splice(i, 2, { type: TOKEN_IDENTIFIER, value: '' + next.value });
+    } else if (isPunctuation(next, '{')) {
+      const block = getCodeBlockAt(tokens, i + 1);
+      const name = block[1];
+      const subscript = isPunctuation(block[2], '[') ? getCodeBlockAt(block, 2) : [];
+      const value = isName(name) ? name.value + subscript.map((t: Token) => '' + t.value).join('') : '';
+      const reference: Token[] = value ? [{ type: TOKEN_IDENTIFIER, value }] : [];
+      tokens.splice(i, block.length + 1, ...reference);
+    } else {
+      tokens.splice(i, 1);
+    }
+    i--;
+  }
+};
+
+/**
+ * A ParseStep function for removing the function name from function definitions (`function name {`).
+ * The log id has to be set before this is run. Names followed by parentheses are removed by `common.removeFunctionCalls`.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeFunctionNames: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token, i: number) => {
+    const prev = result.tokens[i - 1];
+    return t.type !== TOKEN_IDENTIFIER || prev?.type !== TOKEN_KEYWORD || prev.value !== 'function';
+  });
+};
+
+const parseSequence: ParseSequence = [
+  common.removeComments,
+  insertStringReferences,
+  removeNonVariableWords,
+  combineVariableReferences,
+  common.removeWhitespace,
+  common.removeLiterals,
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  common.removeFunctionCalls,
+  removeFunctionNames,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'echo ',
+    parameterSeparator: ' ',
+    identifierPrefix: '${',
+    identifierSuffix: '}',
+    logSuffix: '',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'printf ',
+    parameterSeparator: ' ',
+    identifierPrefix: '"${',
+    identifierSuffix: '}"',
+    logSuffix: ' >&2',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    formatSpecifier: '%s',
+    itemKeySeparator: '=',
+    stringSuffix: '\\n',
+  },
+  {
+    logPrefix: '>&2 declare -p ',
+    parameterSeparator: ' ',
+    identifierPrefix: '',
+    identifierSuffix: '',
+    logSuffix: '',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    omitItemKeys: true,
+    omitLogId: true,
+    namesOnly: true,
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -0,0 +1,233 @@
+import { LoggerConfig } from '../logger';
+import {
+  ParseResult, ParseSequence, ParseStep, common,
+} from '../parser';
+import {
+  Token, TokenizerConfig, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_NUMBER, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_WHITESPACE,
+} from '../tokenizer';
+import { getCodeBlockAt, isCompleteCodeBlock } from '../util';
+
+const LOG_ID_KEYWORDS = ['if', 'else if', 'else', 'guard', 'switch', 'case', 'return', 'for', 'while', 'repeat', 'continue', 'break'];
+const MULTIWORD_KEYWORDS = [['else', 'if']];
+const MULTICHAR_PUNCTUATION = [['?', '.'], ['!', '.']];
+const IDENTIFIER_CHAIN_CHARS = ['.', '?.', '!.'];
+const DEFINITION_KEYWORDS = ['func', 'init', 'subscript'];
+const MODIFIERS = [
+  'let', 'var', 'static', 'private', 'fileprivate', 'public', 'internal', 'open', 'final', 'lazy', 'weak', 'unowned',
+  'mutating', 'override', 'inout', 'convenience', 'required', 'async', 'await', 'try', 'throws', 'rethrows',
+];
+const NUMBER_REGEX = /^-?(0b|0o)?[0-9]+(_[0-9]+)*(\.[0-9]+(_[0-9]+)*)?(e-?[0-9]+(_[0-9]+)*)?/i;
+const HEX_NUMBER_REGEX = /^-?(0x)[0-9a-f]+(_[0-9a-f]+)*/i;
+
+const tokenizerConfig: TokenizerConfig = {
+  PUNCTUATION: ',.;\\[]{}@#()',
+  IDENTIFIER_START: /[\p{L}\p{Nl}$_]/u,
+  IDENTIFIER: /[\p{L}\p{Nl}\p{Nd}\p{Mn}\p{Mc}\p{Pc}$]/u,
+  OPERATOR: '-+/*%=<>!|&^?:~',
+  STRING_DELIM: '"',
+  MULTI_CHAR_STRING_DELIM: ['"""'],
+  TEMPLATE_STRING_DELIM: '"',
+  TEMPLATE_EXPRESSION_START: '\\(',
+  TEMPLATE_EXPRESSION_END: ')',
+  SINGLE_LINE_COMMENT: '//',
+  MULTI_LINE_COMMENT_START: '/*',
+  MULTI_LINE_COMMENT_END: '*/',
+  KEYWORD: [
+    'as', 'associatedtype', 'break', 'case', 'catch', 'class', 'continue', 'default', 'defer', 'deinit', 'do',
+    'else', 'enum', 'extension', 'fallthrough', 'false', 'fileprivate', 'for', 'func', 'guard', 'if', 'import',
+    'in', 'init', 'inout', 'internal', 'is', 'let', 'nil', 'open', 'operator', 'private', 'protocol', 'public',
+    'repeat', 'rethrows', 'return', 'self', 'Self', 'static', 'struct', 'subscript', 'super', 'switch', 'throw',
+    'throws', 'true', 'try', 'typealias', 'var', 'where', 'while', 'async', 'await', 'some', 'any', 'final', 'lazy',
+    'weak', 'unowned', 'mutating', 'override', 'convenience', 'required',
+  ],
+};
+
+function isOperator(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_OPERATOR && token.value === value;
+}
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === TOKEN_PUNCTUATION && token.value === value;
+}
+
+/**
+ * A ParseStep function for removing type annotations (`let a: Int`, `func fn(a: [String: Int]) -> Bool {`) and
+ * argument labels in function calls (`fn(label: value)`).
+ * A colon directly following an identifier is either, unless it is inside a dictionary literal (`[key: value]`).
+ * It is an argument label if it is inside the parentheses of a function call and a type annotation otherwise.
+ * This has to run before whitespace is removed to tell them apart from the ternary operator (`a ? b : c`).
+ * Return types (`-> Bool`) are removed as well.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTypeAnnotationsAndLabels: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  const isDefinition = tokens.some((t: Token) => t.type === TOKEN_KEYWORD && DEFINITION_KEYWORDS.includes('' + t.value));
+
+  const isEnd = (t: Token) => isPunctuation(t, ',') || isPunctuation(t, ')') || isPunctuation(t, '{') || isPunctuation(t, ';')
+    || (t.type === TOKEN_OPERATOR && t.value === '=') || (t.type === TOKEN_KEYWORD && (t.value === 'in' || t.value === 'where'));
+
+  function removeType(start: number) {
+    let end: number;
+    for (end = start + 1; end < tokens.length; end++) {
+      if (isEnd(tokens[end])) break;
+      const block = getCodeBlockAt(tokens, end);
+      if (isCompleteCodeBlock(block)) end += block.length - 1;
+    }
+    while (tokens[end - 1]?.type === TOKEN_WHITESPACE) end--;
+    tokens.splice(start, end - start);
+  }
+
+  function findEnclosingParen(index: number): number {
+    let depth = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      if (isPunctuation(tokens[i], ')') || isPunctuation(tokens[i], ']')) depth++;
+      else if ((isPunctuation(tokens[i], '(') || isPunctuation(tokens[i], '[')) && depth-- === 0) return i;
+    }
+    return -1;
+  }
+
+  for (let i = 1; i < tokens.length; i++) {
+    if (isOperator(tokens[i], '->')) {
+      removeType(i);
+      i--;
+      continue;
+    }
+    if (!isOperator(tokens[i], ':') || tokens[i - 1].type !== TOKEN_IDENTIFIER) continue;
+    const parenPos = findEnclosingParen(i);
+    if (isPunctuation(tokens[parenPos], '[')) continue;
+    if (isPunctuation(tokens[parenPos], '(') && !isDefinition && tokens[parenPos - 1]?.type === TOKEN_IDENTIFIER) {
+      tokens.splice(i - 1, 2);
+      i--;
+    } else {
+      removeType(i);
+    }
+  }
+};
+
+/**
+ * A ParseStep function for removing the external argument labels in function definitions (`func fn(for name: String)`,
+ * `func fn(_ name: String)`) so that the internal name is logged instead. The type annotations have to be removed before
+ * this is run, leaving the label and the name as consecutive identifiers.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeArgumentLabels: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  if (!tokens.some((t: Token) => t.type === TOKEN_KEYWORD && DEFINITION_KEYWORDS.includes('' + t.value))) return;
+  common.removeTypePrefixes(result);
+};
+
+/**
+ * A ParseStep function for removing the names bound by a `guard` statement whose `else` block continues on the next
+ * lines (`guard let user = maybeUser else {`). The log statement is placed inside the `else` block, where the names
+ * are not bound. Shorthand bindings (`guard let user else {`) are kept since they name the optional itself.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeGuardBindings: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  if (tokens[0]?.type !== TOKEN_KEYWORD || tokens[0].value !== 'guard') return;
+  const elseIndex = tokens.findIndex((t: Token) => t.type === TOKEN_KEYWORD && t.value === 'else');
+  if (elseIndex < 0 || !isPunctuation(tokens[elseIndex + 1], '{')) return;
+  if (isCompleteCodeBlock(getCodeBlockAt(tokens, elseIndex + 1))) return;
+  for (let i = elseIndex - 1; i >= 0; i--) {
+    const isBinding = tokens[i].type === TOKEN_KEYWORD && ['let', 'var'].includes('' + tokens[i].value);
+    if (isBinding && tokens[i + 1]?.type === TOKEN_IDENTIFIER && isOperator(tokens[i + 2], '=')) tokens.splice(i + 1, 1);
+  }
+};
+
+/**
+ * A ParseStep function for removing modifiers and declaration keywords (`private static let a`, `inout`).
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeModifiers: ParseStep = (result: ParseResult): void => {
+  result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_KEYWORD || !MODIFIERS.includes('' + t.value));
+};
+
+/**
+ * A ParseStep function for removing complete closures passed as the last argument (`items.map { $0 * 2 }`)
+ * along with the name of the function they are passed to, like `removeFunctionCalls` does.
+ * Closures that continue on the next lines (`items.forEach { item in`) only have the function name removed.
+ *
+ * @param result The ParseResult to parse and modify in place
+ */
+const removeTrailingClosures: ParseStep = (result: ParseResult): void => {
+  const tokens = result.tokens;
+  for (let i = 1; i < tokens.length; i++) {
+    if (!isPunctuation(tokens[i], '{')) continue;
+    const prev = tokens[i - 1];
+    if (prev.type !== TOKEN_IDENTIFIER && !isPunctuation(prev, ')')) continue;
+    const block = getCodeBlockAt(tokens, i);
+    const isComplete = isCompleteCodeBlock(block);
+    if (!isComplete && !tokens.some((t: Token, j: number) => j > i && t.type === TOKEN_KEYWORD && t.value === 'in')) continue;
+    const start = prev.type === TOKEN_IDENTIFIER ? i - 1 : i;
+    tokens.splice(start, i - start + (isComplete ? block.length : 1));
+    i = start - 1;
+  }
+};
+
+const parseSequence: ParseSequence = [
+  common.insertTemplateExpressions,
+  common.removeGenerics,
+  removeTypeAnnotationsAndLabels,
+  common.removeWhitespace,
+  common.removeComments,
+  removeGuardBindings,
+  common.removeAnnotations,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_PUNCTUATION, MULTICHAR_PUNCTUATION),
+  common.combineBracketNotation,
+  common.getCombineConsecutiveTokensOfTypeFn([TOKEN_IDENTIFIER, TOKEN_KEYWORD], TOKEN_IDENTIFIER, IDENTIFIER_CHAIN_CHARS),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, HEX_NUMBER_REGEX),
+  common.getCombineMatchingTokens(TOKEN_NUMBER, NUMBER_REGEX),
+  removeModifiers,
+  common.removeTypeChecks,
+  common.getCombineConsecutiveTokensOfValueFn(TOKEN_KEYWORD, MULTIWORD_KEYWORDS, ' '),
+  common.getSetDefaultIdFn(LOG_ID_KEYWORDS),
+  removeArgumentLabels,
+  removeTrailingClosures,
+  common.removeFunctionCalls,
+  common.getRemoveIncompleteChainedIdentifiersFn(IDENTIFIER_CHAIN_CHARS),
+  common.removeLiterals,
+  common.removePunctuation,
+  common.removeOperators,
+  common.removeNonIdentifiers,
+  common.removeDuplicates,
+  common.storeTokensAsLogItems,
+];
+
+const loggerConfig: LoggerConfig = [
+  {
+    logPrefix: 'print(',
+    parameterSeparator: ' ',
+    identifierPrefix: '\\(',
+    identifierSuffix: ')',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'debugPrint(',
+    parameterSeparator: ' ',
+    identifierPrefix: '\\(',
+    identifierSuffix: ')',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+  {
+    logPrefix: 'Logger().debug(',
+    parameterSeparator: ' ',
+    identifierPrefix: '\\(',
+    identifierSuffix: ')',
+    logSuffix: ')',
+    quoteCharacter: '"',
+    insertSpaces: true,
+    interpolate: true,
+  },
+];
+
+export { tokenizerConfig, parseSequence, loggerConfig };
@@ -1,3 +1,4 @@
+import type { AstScriptKind } from '../astParser';
 import {
   ParseSequence, common, ParseStep, ParseResult,
 } from '../parser';
@@ -30,13 +31,18 @@ const tokenizerConfig: TokenizerConfig = {
   IDENTIFIER: jsTokenizerConfig.IDENTIFIER,
   OPERATOR: jsTokenizerConfig.OPERATOR,
   STRING_DELIM: jsTokenizerConfig.STRING_DELIM,
+  TEMPLATE_STRING_DELIM: jsTokenizerConfig.TEMPLATE_STRING_DELIM,
+  TEMPLATE_EXPRESSION_START: jsTokenizerConfig.TEMPLATE_EXPRESSION_START,
+  TEMPLATE_EXPRESSION_END: jsTokenizerConfig.TEMPLATE_EXPRESSION_END,
+  REGEX_DELIM: jsTokenizerConfig.REGEX_DELIM,
+  REGEX_PRECEDING_KEYWORDS: jsTokenizerConfig.REGEX_PRECEDING_KEYWORDS,
   SINGLE_LINE_COMMENT: jsTokenizerConfig.SINGLE_LINE_COMMENT,
   MULTI_LINE_COMMENT_START: jsTokenizerConfig.MULTI_LINE_COMMENT_START,
   MULTI_LINE_COMMENT_END: jsTokenizerConfig.MULTI_LINE_COMMENT_END,
   KEYWORD: [
     ...jsTokenizerConfig.KEYWORD,
     'enum', 'any', 'constructor', 'declare', 'get', /*'module',*/ 'require', 'number', 'readonly',
-    /*'set',*/ 'string', /*'symbol', 'type',*/ 'ReadonlyArray', 'keyof',
+    /*'set',*/ 'string', /*'symbol', 'type',*/ 'ReadonlyArray', 'keyof', 'satisfies',
   ],
 };
 
@@ -299,14 +305,14 @@ const removeTypes: ParseStep = (result: ParseResult) => {
 };
 
 /**
- * A function for removing type casts (`... as SomeType`).
+ * A function for removing type casts (`... as SomeType`) and type assertions (`... satisfies SomeType`).
  *
  * @param result The ParseResult to parse and modify in place
  */
 const removeTypeCasts: ParseStep = (result: ParseResult) => {
   const tokens = result.tokens;
   for (let i = 0; i < tokens.length - 1; i++) {
-    if (tokens[i].type !== TOKEN_KEYWORD || tokens[i].value !== 'as') continue;
+    if (tokens[i].type !== TOKEN_KEYWORD || (tokens[i].value !== 'as' && tokens[i].value !== 'satisfies')) continue;
     if (tokens[i + 1].type !== TOKEN_IDENTIFIER) continue;
     tokens.splice(i, 2);
     i--;
@@ -314,6 +320,7 @@ const removeTypeCasts: ParseStep = (result: ParseResult) => {
 };
 
 const parseSequence: ParseSequence = [
+  common.insertTemplateExpressions,
   common.removeWhitespace,
   common.removeComments,
   common.combineBracketNotation,
@@ -343,4 +350,8 @@ const parseSequence: ParseSequence = [
   common.storeTokensAsLogItems,
 ];
 
-export { tokenizerConfig, parseSequence, loggerConfig };
+const AST_SCRIPT_KINDS: AstScriptKind[] = ['TS', 'TSX'];
+
+export {
+  LOG_ID_KEYWORDS, tokenizerConfig, parseSequence, AST_SCRIPT_KINDS, loggerConfig,
+};
@@ -1,12 +1,14 @@
 import {
-  Token, TOKEN_STRING, TOKEN_WHITESPACE,
+  Token, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_STRING, TOKEN_UNKNOWN, TOKEN_WHITESPACE,
 } from './tokenizer';
 import {
   ParseError, ParseResult, ParseSequence, ParseStep, ParseStepFactory,
 } from './parser';
-import { log, LogFormat, LoggerConfig } from './logger';
 import {
-  getCodeBlockAt, getMatchingTokens, isCompleteCodeBlock, PARENS_EXT,
+  canLogItems, getStringItemKeySuffix, log, LogFormat, LoggerConfig, POSITIONAL_PARAMETER_SEPARATOR,
+} from './logger';
+import {
+  getCodeBlockAt, getMatchingTokens, isCompleteCodeBlock, joinTokenLines, PARENS_EXT, serializeTokens, shortenIdentifier,
 } from './util';
 
 /**
@@ -24,8 +26,21 @@ import {
 export type LogRotator = (tokens: Token[], direction: 1 | -1) => string | null;
 
 /**
- * Return a ParserStep function that matches each LogFormat's logPrefix against the beginning of the log statement until
- * a match is found and stores the LogFormat in the ParseResult.
+ * A ParseStep function that joins the lines of log statements that span multiple lines so that the rotated log statement
+ * is written on a single line.
+ *
+ * @param result The result to parse and modify in place
+ */
+const joinLines: ParseStep = (result: ParseResult): void => {
+  joinTokenLines(result.tokens);
+};
+
+/**
+ * Return a ParserStep function that matches each LogFormat's logPrefix against the beginning of the log statement
+ * and stores the LogFormat with the longest matching logPrefix in the ParseResult. (Log formats can share the beginning
+ * of their logPrefixes, eg. 'print(' and 'print(f' for python f-strings)
+ * Log formats with the same logPrefix are told apart by their parameterSeparator, eg. 'print("a:", a)' and
+ * 'print("a: " .. inspect(a))' in lua.
  * The matched logPrefix tokens are then removed.
  * The LogFormat is used in later ParseStep functions.
  *
@@ -36,17 +51,23 @@ export type LogRotator = (tokens: Token[], direction: 1 | -1) => string | null;
  */
 const getDetectLogFormatFn: ParseStepFactory = (config: LoggerConfig): ParseStep => {
   return (result: ParseResult): void => {
+    const usesSeparator = (format: LogFormat) => result.tokens.some((t: Token, i: number) => {
+      return getMatchingTokens(result.tokens, format.parameterSeparator, i, 1, format.quoteCharacter).length > 0;
+    });
+
+    let matchLength = 0;
     for (let i = 0; i < config.length; i++) {
       const format: LogFormat = config[i];
 
       const matchingTokens = getMatchingTokens(result.tokens, format.logPrefix, 0, 1, format.quoteCharacter);
-      if (!matchingTokens.length) continue;
+      if (!matchingTokens.length || matchingTokens.length < matchLength) continue;
+      if (matchingTokens.length === matchLength && (!usesSeparator(format) || usesSeparator(result.logFormat!))) continue;
 
       result.logFormat = format;
-      result.tokens.splice(0, matchingTokens.length);
-      return;
+      matchLength = matchingTokens.length;
     }
-    throw new ParseError('LogMagic: Failed to parse log statement: no matching log format found.');
+    if (!result.logFormat) throw new ParseError('LogMagic: Failed to parse log statement: no matching log format found.');
+    result.tokens.splice(0, matchLength);
   };
 };
 
@@ -62,6 +83,112 @@ const removeLogSuffix: ParseStep = (result: ParseResult): void => {
   result.tokens.splice(result.tokens.length - matchingTokens.length);
 };
 
+/**
+ * Remove the stringSuffix of the LogFormat from the end of an interpolated string or format string if it has one.
+ *
+ * @param str The contents of the string
+ * @param format The active LogFormat
+ * @returns The string without the suffix
+ */
+function removeStringSuffix(str: string, format: LogFormat): string {
+  if (!format.stringSuffix || !str.endsWith(format.stringSuffix)) return str;
+  return str.substring(0, str.length - format.stringSuffix.length);
+}
+
+/**
+ * Find the next log item in an interpolated string. A log item ends at the first identifierSuffix and starts at
+ * the last identifierPrefix in front of it, so that prefixes in the log id and other literal text (`#{a} x a: #{a.inspect}`)
+ * are not mistaken for the start of a log item.
+ *
+ * @param str The contents of the string
+ * @param from The position to start searching at
+ * @param format The active LogFormat
+ * @param hasPositionalItems Whether there are parameters left for positionalSpecifiers
+ * @returns The position of the log item's prefix and suffix, or of its positionalSpecifier
+ */
+function findInterpolatedItem(
+  str: string,
+  from: number,
+  format: LogFormat,
+  hasPositionalItems: boolean,
+): { start: number; end: number; isPositional: boolean } | undefined {
+  const prefix = format.identifierPrefix;
+  let start = -1;
+  let end = from + prefix.length - 1;
+  do {
+    end = str.indexOf(format.identifierSuffix, end + 1);
+    start = end >= prefix.length ? str.lastIndexOf(prefix, end - prefix.length) : -1;
+  } while (end !== -1 && end < str.length && start < from);
+  if (end === -1 || start < from) start = -1;
+
+  const positionalStart = hasPositionalItems && format.positionalSpecifier ? str.indexOf(format.positionalSpecifier, from) : -1;
+  if (positionalStart !== -1 && (start === -1 || positionalStart <= start)) {
+    return { start: positionalStart, end: positionalStart, isPositional: true };
+  }
+  return start === -1 ? undefined : { start, end, isPositional: false };
+}
+
+/**
+ * A ParserStep function that parses the log id and log items from the interpolated string of log statements that are in
+ * the interpolate format. Log items are detected by the identifierPrefix and identifierSuffix of the LogFormat.
+ * The log items of positionalSpecifiers are taken from the parameters that follow the string.
+ * Text before the first log item (minus its log item key) is used as the log id.
+ * All tokens are consumed so the following parse steps have nothing left to do.
+ *
+ * @param result The result to parse and modify in place
+ */
+const parseInterpolatedString: ParseStep = (result: ParseResult): void => {
+  const format: LogFormat = result.logFormat!;
+  if (!format.interpolate) return;
+  const stringIndex = result.tokens.findIndex((t: Token) => t.type === TOKEN_STRING);
+  const stringToken: Token | undefined = result.tokens[stringIndex];
+  const positionalItems = stringToken && format.positionalSpecifier
+    ? collectPositionalParameters(result.tokens.slice(stringIndex + 1), format)
+    : [];
+  result.tokens = [];
+  if (!stringToken) return;
+
+  const str = removeStringSuffix('' + stringToken.value, format);
+  let idStr = str;
+  for (let i = 0; i < str.length;) {
+    const position = findInterpolatedItem(str, i, format, positionalItems.length > 0);
+    if (!position) break;
+    const { start, end, isPositional } = position;
+    const logItem = isPositional
+      ? positionalItems.shift()!
+      : [{ type: TOKEN_IDENTIFIER, value: str.substring(start + format.identifierPrefix.length, end) } as Token];
+    if (!result.logItems.length) {
+      idStr = str.substring(0, start).trimRight();
+      const key = shortenIdentifier(serializeTokens(logItem)) + getStringItemKeySuffix(format).trimRight();
+      if (!format.omitItemKeys && idStr.endsWith(key)) idStr = idStr.substring(0, idStr.length - key.length);
+    }
+    result.logItems.push(logItem);
+    i = isPositional ? start + format.positionalSpecifier!.length : end + format.identifierSuffix.length;
+  }
+
+  idStr = idStr.trim();
+  if (idStr) result.logId = { type: TOKEN_STRING, value: idStr };
+};
+
+/**
+ * Collect the parameters that follow the interpolated string of a log statement for the log items of its positionalSpecifiers.
+ *
+ * @param tokens The tokens after the string
+ * @param format The active LogFormat
+ * @returns The tokens of each parameter without whitespace
+ */
+function collectPositionalParameters(tokens: Token[], format: LogFormat): Token[][] {
+  const parameters: Token[][] = [];
+  const iterator: Generator<Token[]> = getTokensUntilSeparator(tokens, POSITIONAL_PARAMETER_SEPARATOR.trim(), format);
+  let parameter: IteratorResult<Token[]>;
+  do {
+    parameter = iterator.next();
+    const code = (parameter.value || []).filter((t: Token) => t.type !== TOKEN_WHITESPACE);
+    if (code.length) parameters.push(code);
+  } while (!parameter.done);
+  return parameters;
+}
+
 /**
  * A ParserStep function that finds the first non-whitespace token and stores it as the logId if it is a string token.
  * A colon suffix is removed from the token value if there is one.
@@ -75,6 +202,19 @@ const detectLogId: ParseStep = (result: ParseResult): void => {
   result.tokens.splice(0, i + 1);
 };
 
+/**
+ * A ParserStep function that removes the logIdSeparator of the LogFormat that follows the log id, if it has one.
+ *
+ * @param result The result to parse and modify in place
+ */
+const removeLogIdSeparator: ParseStep = (result: ParseResult): void => {
+  const { logIdSeparator, quoteCharacter } = result.logFormat!;
+  if (!logIdSeparator || !result.logId) return;
+  const i = result.tokens.findIndex((t: Token) => t.type !== TOKEN_WHITESPACE);
+  const separatorTokens = getMatchingTokens(result.tokens, logIdSeparator.trimLeft(), i, 1, quoteCharacter);
+  result.tokens.splice(0, i + separatorTokens.length);
+};
+
 /**
  * A Generator function that yields arrays of Tokens that are between Tokens that form the given
  * separator string. Separators inside code blocks are ignored.
@@ -112,14 +252,25 @@ function* getTokensUntilSeparator(tokens: Token[], separator: string, logFormat:
  * A ParserStep function that looks for log item keys and removes the matching tokens.
  * A "log item key" is a string version of a series of tokens with a colon appended to it and is
  * logged right before the corresponding log item.
+ * If the LogFormat has an itemKeySeparator, any string followed by the itemKeySeparator is a log item key.
+ * Template strings and verbatim strings are never log item keys since they are written by hand.
  *
  * @param result The result to parse and modify in place
  */
 const removeLogItemKeys: ParseStep = (result: ParseResult): void => {
   const tokens = result.tokens;
+  const { itemKeySeparator, quoteCharacter } = result.logFormat!;
+  if (itemKeySeparator) {
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (tokens[i].type !== TOKEN_STRING) continue;
+      const separatorTokens = getMatchingTokens(tokens, itemKeySeparator, i + 1, 1, quoteCharacter);
+      if (separatorTokens.length) tokens.splice(i, 1 + separatorTokens.length);
+    }
+    return;
+  }
   for (let i = 0; i < tokens.length - 2; i++) {
     const token = tokens[i];
-    if (token.type !== TOKEN_STRING || !('' + token.value).trimRight().endsWith(':')) continue;
+    if (token.type !== TOKEN_STRING || token.quoteCharacter || !('' + token.value).trimRight().endsWith(':')) continue;
     const separatorTokens = getMatchingTokens(tokens, result.logFormat!.parameterSeparator, i + 1, 1, result.logFormat!.quoteCharacter);
     const identifierTokens = getTokensUntilSeparator(tokens, result.logFormat!.parameterSeparator, result.logFormat!, i + separatorTokens.length + 1).next().value;
     if (identifierTokens.length) tokens.splice(i, 1);
@@ -133,7 +284,6 @@ const removeLogItemKeys: ParseStep = (result: ParseResult): void => {
  * @param result The result to parse and modify in place
  */
 const collectLogItems: ParseStep = (result: ParseResult): void => {
-  result.logItems = [];
   const iterator: Generator<Token[]> = getTokensUntilSeparator(result.tokens, result.logFormat!.parameterSeparator, result.logFormat!);
   let logItem: IteratorResult<Token[]>;
   do {
@@ -142,20 +292,99 @@ const collectLogItems: ParseStep = (result: ParseResult): void => {
   } while (!logItem.done);
 };
 
+/**
+ * Find the positions of the format specifiers of the given LogFormat in a format string.
+ * If the LogFormat has type specific formatSpecifiers, the type hint that each specifier belongs to is returned as well.
+ *
+ * @param str The format string
+ * @param format The LogFormat of the log statement
+ * @returns An array of {pos, typeHint} objects in the order they appear in the string
+ */
+function findFormatSpecifiers(str: string, format: LogFormat): { pos: number, typeHint?: string }[] {
+  const typeHints = Object.keys(format.formatSpecifiers || {});
+  const specifiers = [format.formatSpecifier!, ...typeHints.map((typeHint: string) => format.formatSpecifiers![typeHint])]
+    .sort((a: string, b: string) => b.length - a.length);
+  const found = [];
+  for (let i = 0; i < str.length; i++) {
+    const specifier = specifiers.find((s: string) => str.startsWith(s, i));
+    if (!specifier) continue;
+    const typeHint = specifier === format.formatSpecifier
+      ? undefined
+      : typeHints.find((t: string) => format.formatSpecifiers![t] === specifier);
+    found.push({ pos: i, typeHint });
+    i += specifier.length - 1;
+  }
+  return found;
+}
+
+/**
+ * A ParserStep function that parses log statements that are in the format string format. The log items are collected from
+ * the parameters following the format string and the text before the first format specifier (minus its log item key)
+ * is used as the log id.
+ * All tokens are consumed so the following parse steps have nothing left to do.
+ *
+ * @param result The result to parse and modify in place
+ */
+const parseFormatString: ParseStep = (result: ParseResult): void => {
+  const format: LogFormat = result.logFormat!;
+  if (!format.formatSpecifier) return;
+  const i = result.tokens.findIndex((t: Token) => t.type !== TOKEN_WHITESPACE);
+  if (result.tokens[i]?.type !== TOKEN_STRING) return;
+
+  const str = removeStringSuffix('' + result.tokens[i].value, format);
+  const separatorTokens = getMatchingTokens(result.tokens, format.parameterSeparator, i + 1, 1, format.quoteCharacter);
+  result.tokens.splice(0, i + 1 + separatorTokens.length);
+  collectLogItems(result);
+  result.tokens = [];
+
+  // Restore the type hints of the log items from their format specifiers. Items that are only literals have no specifier.
+  const specifiers = findFormatSpecifiers(str, format);
+  result.logItems
+    .filter((logItem: Token[]) => logItem.some((t: Token) => t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD))
+    .forEach((logItem: Token[], i: number) => {
+      if (specifiers[i]?.typeHint) logItem[0] = { ...logItem[0], typeHint: specifiers[i].typeHint };
+    });
+
+  const specifierPos = specifiers.length ? specifiers[0].pos : -1;
+  let idStr = specifierPos === -1 ? str : str.substring(0, specifierPos).trimRight();
+  if (specifierPos !== -1 && result.logItems.length && !format.omitItemKeys) {
+    let itemValue = serializeTokens(result.logItems[0], format.quoteCharacter);
+    if (itemValue.startsWith(format.identifierPrefix) && itemValue.endsWith(format.identifierSuffix)) {
+      itemValue = itemValue.substring(format.identifierPrefix.length, itemValue.length - format.identifierSuffix.length);
+    }
+    const key = shortenIdentifier(itemValue) + getStringItemKeySuffix(format).trimRight();
+    if (idStr.endsWith(key)) idStr = idStr.substring(0, idStr.length - key.length);
+  }
+
+  idStr = idStr.trim();
+  if (idStr) result.logId = { type: TOKEN_STRING, value: idStr };
+};
+
 /**
  * A ParseStep function that searches for prefixes and suffixes defined in the LogFormat
  * that surround log items and removes them. The prefixes and suffixes are removed only
  * if both are found or if the other one is not specified in the LogFormat.
+ * A log item that is a single string wrapped in quoting prefixes and suffixes (eg. '"${' and '}"' for shell) is
+ * turned into an identifier.
  *
  * @param result The result to parse and modify in place
  */
 const removeIdentifierPrefixesAndSuffixes: ParseStep = (result: ParseResult): void => {
   if (!result.logItems) return;
+  if (result.logFormat?.interpolate) return;
   if (!result.logFormat?.identifierPrefix && !result.logFormat?.identifierSuffix) return;
-  const prefix = result.logFormat?.identifierPrefix;
-  const suffix = result.logFormat?.identifierSuffix;
+  const prefix = result.logFormat.identifierPrefix;
+  const suffix = result.logFormat.identifierSuffix;
+  const quoteCharacter = result.logFormat!.quoteCharacter;
+  const isQuoting = (prefix + suffix).includes(quoteCharacter);
   for (let i = 0; i < result.logItems.length; i++) {
     const logItem: Token[] = result.logItems[i];
+    const serializedItem = serializeTokens(logItem, quoteCharacter);
+    if (isQuoting && logItem.length === 1 && logItem[0].type === TOKEN_STRING && serializedItem.length > (prefix + suffix).length
+      && serializedItem.startsWith(prefix) && serializedItem.endsWith(suffix)) {
+      logItem[0] = { type: TOKEN_IDENTIFIER, value: serializedItem.substring(prefix.length, serializedItem.length - suffix.length) };
+      continue;
+    }
     const prefixTokens: Token[] = prefix ? getMatchingTokens(logItem, prefix, 0, 1, result.logFormat!.quoteCharacter) : [];
     const suffixTokens: Token[] = suffix ? getMatchingTokens(logItem, suffix, logItem.length - 1, -1, result.logFormat!.quoteCharacter) : [];
     if (prefixTokens.length && (suffixTokens.length || !suffix)) logItem.splice(0, prefixTokens.length);
@@ -163,6 +392,31 @@ const removeIdentifierPrefixesAndSuffixes: ParseStep = (result: ParseResult): vo
   }
 };
 
+/**
+ * A ParseStep function that removes a log id that is the name of the first log item from log statements of LogFormats
+ * with a logIdSeparator, since those always write a log id even if there is none.
+ *
+ * @param result The result to parse and modify in place
+ */
+const removeFirstItemLogId: ParseStep = (result: ParseResult): void => {
+  if (!result.logFormat!.logIdSeparator || !result.logItems.length) return;
+  if (result.logId?.value === serializeTokens(result.logItems[0], result.logFormat!.quoteCharacter)) delete result.logId;
+};
+
+/**
+ * A ParseStep function that turns the names of the log items of LogFormats with a namePrefix (see namesOnly) back into
+ * variables, eg. `compact('a')` logs `$a` in php.
+ *
+ * @param result The result to parse and modify in place
+ */
+const restoreNamePrefixes: ParseStep = (result: ParseResult): void => {
+  const { namePrefix, quoteCharacter } = result.logFormat!;
+  if (!namePrefix) return;
+  result.logItems = result.logItems.map((logItem: Token[]) => {
+    return [{ type: TOKEN_IDENTIFIER, value: namePrefix + serializeTokens(logItem, quoteCharacter) }];
+  });
+};
+
 /**
  * A ParseStep function that removes log items that are left empty after previous processing.
  *
@@ -180,25 +434,36 @@ const removeEmptyLogItems: ParseStep = (result: ParseResult): void => {
 */
 export function createLogRotator(config: LoggerConfig): LogRotator {
   const parseSequence: ParseSequence = [
+    joinLines,
     getDetectLogFormatFn(config),
     removeLogSuffix,
+    parseInterpolatedString,
+    parseFormatString,
     removeLogItemKeys,
     detectLogId,
+    removeLogIdSeparator,
     collectLogItems,
     removeIdentifierPrefixesAndSuffixes,
     removeEmptyLogItems,
+    removeFirstItemLogId,
+    restoreNamePrefixes,
   ];
 
   const rotatorFn:LogRotator = (tokens: Token[], direction: 1 | -1): string | null => {
-    const result: ParseResult = { tokens, logItems: [] };
+    const result: ParseResult = { tokens: tokens.filter((t: Token) => t.type !== TOKEN_UNKNOWN), logItems: [] };
     try {
       parseSequence.forEach((fn: ParseStep) => fn(result));
     } catch (e) {
       if (e instanceof ParseError) return null;
       throw e;
     }
+    // Formats that would change the log items are skipped
     const currentFormatIndex = config.indexOf(result.logFormat!);
-    result.logFormat = config[(currentFormatIndex + direction + config.length) % config.length];
+    let formatIndex = currentFormatIndex;
+    do {
+      formatIndex = (formatIndex + direction + config.length) % config.length;
+    } while (formatIndex !== currentFormatIndex && !canLogItems(result, config[formatIndex]));
+    result.logFormat = config[formatIndex];
     return log(result);
   };
 
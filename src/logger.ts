@@ -1,7 +1,9 @@
 import { ParseResult } from './parser';
-import { Token, TOKEN_IDENTIFIER, TOKEN_KEYWORD } from './tokenizer';
 import {
-  quoteString, serializeToken, serializeTokens, shortenIdentifier,
+  Token, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_STRING,
+} from './tokenizer';
+import {
+  escapeString, quoteString, serializeToken, serializeTokens, shortenIdentifier,
 } from './util';
 
 /**
@@ -13,6 +15,33 @@ import {
  * identifierSuffix: Option to suffix identifiers with something static like '.toString()'
  * logSuffix: A function call end. Usually just something like [');'].
  * quoteCharacter: Which quote character to use when turning identifiers into strings.
+ * insertSpaces: Whether log item keys should be padded with spaces.
+ * interpolate: (optional) Output all log items inside a single interpolated string instead of as separate parameters.
+ *              The identifierPrefix and identifierSuffix wrap each log item inside the string (eg. '{' and '=}' for python f-strings)
+ *              and are required in this mode. The parameterSeparator separates log items inside the string.
+ * omitItemKeys: (optional) Do not output log item keys, eg. when the log function prints the identifiers itself.
+ * omitLogId: (optional) Do not output the log id, eg. when the log function only accepts identifiers (shell `declare -p`).
+ * namesOnly: (optional) Only output log items that are variable names, eg. when the log function only accepts variable names
+ *            (shell `declare -p`). Subscripts are removed (`a[@]` is output as `a`) and other log items, like the positional
+ *            and special parameters of shell (`1`, `@`), are left out. Log statements are not rotated into this format
+ *            if that would change their log items.
+ * namePrefix: (optional) Together with namesOnly, a prefix that variables are written with but that is not part of their
+ *             names, eg. '$' for php (`compact('a')` for `$a`). Variables without the prefix are left out.
+ * logIdSeparator: (optional) Always output a log id, the name of the first log item if there is none, and separate it from
+ *                 the log items with this instead of the parameterSeparator, eg. ', compact(' for `\Log::debug('a', compact('a'))`.
+ * formatSpecifier: (optional) Output the log id and log item keys in a single format string with this specifier in place of each
+ *                  log item (eg. '%v'), separated by spaces. The log items are then listed as separate parameters after the format string.
+ * itemKeySeparator: (optional) Output log item keys without a colon and separate them from the log items with this instead of
+ *                   the parameterSeparator, eg. ' => ' for php arrays ('a' => $a). In the interpolated string and format string
+ *                   modes it replaces the colon and padding after the key (eg. '=' for 'a=%s').
+ * formatSpecifiers: (optional) A mapping from the type hints that parsing attaches to log items (eg. 'char*') to the format specifiers
+ *                   to use for them (eg. '%s'). The formatSpecifier is used for log items without a known type.
+ * stringSuffix: (optional) Something to append to the end of the interpolated string or format string, like '\\n'.
+ * positionalSpecifier: (optional) In the interpolate mode, a format specifier for log items that are not plain identifiers, for languages
+ *                      that can only interpolate identifiers (eg. '{:?}' for rust). Those log items are listed as parameters after the
+ *                      string, separated by commas.
+ * alternateQuoteCharacter: (optional) In the interpolate mode, the quote character to wrap the string in when a log item inside it
+ *                          contains the quoteCharacter (eg. "'" for `f'{d["k"]=}'`, since python before 3.12 ends the f-string there).
  */
 export type LogFormat = {
   logPrefix: string;
@@ -22,8 +51,25 @@ export type LogFormat = {
   logSuffix: string;
   quoteCharacter: string;
   insertSpaces: boolean;
+  interpolate?: boolean;
+  omitItemKeys?: boolean;
+  omitLogId?: boolean;
+  namesOnly?: boolean;
+  namePrefix?: string;
+  logIdSeparator?: string;
+  itemKeySeparator?: string;
+  formatSpecifier?: string;
+  formatSpecifiers?: { [typeHint: string]: string };
+  stringSuffix?: string;
+  positionalSpecifier?: string;
+  alternateQuoteCharacter?: string;
 };
 
+/**
+ * The separator of the parameters that follow an interpolated string for the log items in its positionalSpecifiers.
+ */
+export const POSITIONAL_PARAMETER_SEPARATOR = ', ';
+
 /**
  * A list of log formats that can be configured for each language. The first format is used for
  * creating new log statements. All log statements can then be rotated to the next format in the list.
@@ -49,6 +95,39 @@ export function validateLogFormat(format: LogFormat): string | null {
   if (typeof format.logSuffix !== 'string') return 'logSuffix not found or is not a string';
   if (typeof format.quoteCharacter !== 'string') return 'quoteCharacter not found or is not a string';
   if (typeof format.insertSpaces !== 'boolean') return 'insertSpaces not found or is not a boolean';
+  if (format.interpolate !== undefined && typeof format.interpolate !== 'boolean') return 'interpolate is not a boolean';
+  if (format.interpolate && (!format.identifierPrefix || !format.identifierSuffix)) {
+    return 'interpolate requires both identifierPrefix and identifierSuffix';
+  }
+  if (format.omitItemKeys !== undefined && typeof format.omitItemKeys !== 'boolean') return 'omitItemKeys is not a boolean';
+  if (format.omitLogId !== undefined && typeof format.omitLogId !== 'boolean') return 'omitLogId is not a boolean';
+  if (format.namesOnly !== undefined && typeof format.namesOnly !== 'boolean') return 'namesOnly is not a boolean';
+  if (format.namePrefix !== undefined) {
+    if (typeof format.namePrefix !== 'string') return 'namePrefix is not a string';
+    if (!format.namesOnly) return 'namePrefix requires namesOnly';
+  }
+  if (format.logIdSeparator !== undefined) {
+    if (typeof format.logIdSeparator !== 'string') return 'logIdSeparator is not a string';
+    if (format.interpolate || format.formatSpecifier) return 'logIdSeparator can not be used with interpolate or formatSpecifier';
+  }
+  if (format.itemKeySeparator !== undefined && typeof format.itemKeySeparator !== 'string') return 'itemKeySeparator is not a string';
+  if (format.formatSpecifier !== undefined && typeof format.formatSpecifier !== 'string') return 'formatSpecifier is not a string';
+  if (format.interpolate && format.formatSpecifier) return 'interpolate and formatSpecifier can not be used together';
+  if (format.formatSpecifiers !== undefined) {
+    if (typeof format.formatSpecifiers !== 'object' || !format.formatSpecifiers) return 'formatSpecifiers is not an object';
+    if (!format.formatSpecifier) return 'formatSpecifiers requires formatSpecifier';
+    const values = Object.values(format.formatSpecifiers as Record<string, unknown>);
+    if (values.some((v: unknown) => typeof v !== 'string')) return 'formatSpecifiers has values that are not strings';
+  }
+  if (format.stringSuffix !== undefined && typeof format.stringSuffix !== 'string') return 'stringSuffix is not a string';
+  if (format.positionalSpecifier !== undefined) {
+    if (typeof format.positionalSpecifier !== 'string') return 'positionalSpecifier is not a string';
+    if (!format.interpolate) return 'positionalSpecifier requires interpolate';
+  }
+  if (format.alternateQuoteCharacter !== undefined) {
+    if (typeof format.alternateQuoteCharacter !== 'string') return 'alternateQuoteCharacter is not a string';
+    if (!format.interpolate) return 'alternateQuoteCharacter requires interpolate';
+  }
   return null;
 }
 
@@ -77,11 +156,91 @@ export function validateLoggerConfig(config: LoggerConfig): string | null {
  * @returns A serialized log item key string
  */
 function createLogItemKey(serializedItemValue: string, isFirst: boolean, format: LogFormat) {
+  if (format.itemKeySeparator) return quoteString(shortenIdentifier(serializedItemValue), format.quoteCharacter);
   const spacePrefix = format.insertSpaces && !isFirst ? ' ' : '';
   const spaceSuffix = format.insertSpaces ? ' ' : '';
   return quoteString(spacePrefix + shortenIdentifier(serializedItemValue) + ':' + spaceSuffix, format.quoteCharacter);
 }
 
+/**
+ * Check whether the given log item consists only of literals (strings, numbers, punctuation, ...).
+ *
+ * @param logItem The tokens of the log item
+ * @returns true if the log item does not contain any identifiers or keywords
+ */
+function isOnlyLiterals(logItem: Token[]): boolean {
+  return !logItem.find((t: Token) => t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD);
+}
+
+const PLAIN_IDENTIFIER_REGEX = /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*$/u;
+
+/**
+ * Check whether the given log item is a plain identifier that can be interpolated by any language, ie. not a member
+ * access, an index or another expression.
+ *
+ * @param logItem The tokens of the log item
+ * @returns true if the log item is a single identifier
+ */
+function isPlainIdentifier(logItem: Token[]): boolean {
+  return logItem.length === 1 && logItem[0].type === TOKEN_IDENTIFIER && PLAIN_IDENTIFIER_REGEX.test('' + logItem[0].value);
+}
+
+/**
+ * Get the variable name of the given log item for LogFormats that only accept names (see namesOnly).
+ *
+ * @param logItem The tokens of the log item
+ * @param format The LogFormat to use for log syntax
+ * @returns The variable name without subscripts and the namePrefix or null if the log item is not a variable
+ */
+function getLogItemName(logItem: Token[], format: LogFormat): string | null {
+  const value = serializeTokens(logItem, format.quoteCharacter).replace(/\[.*\]$/, '');
+  const prefix = format.namePrefix || '';
+  const name = value.startsWith(prefix) ? value.substring(prefix.length) : '';
+  return PLAIN_IDENTIFIER_REGEX.test(name) ? name : null;
+}
+
+/**
+ * Check whether the given LogFormat can output the log items of a ParseResult as they are.
+ * Formats that only accept names (see namesOnly) can not output expressions, subscripts or special parameters.
+ *
+ * @param parseResult The parsed items to log
+ * @param format The LogFormat to check
+ * @returns true if the log items are output without changes
+ */
+export function canLogItems(parseResult: ParseResult, format: LogFormat): boolean {
+  if (!format.namesOnly) return true;
+  return parseResult.logItems.every((logItem: Token[]) => {
+    const name = getLogItemName(logItem, format);
+    return name !== null && (format.namePrefix || '') + name === serializeTokens(logItem, format.quoteCharacter);
+  });
+}
+
+/**
+ * List the variable names of the log items for LogFormats that only accept names (see namesOnly).
+ * Log items that are not variables are left out.
+ *
+ * @param parseResult The parsed items to log
+ * @param format The LogFormat to use for log syntax
+ * @returns A log item for each variable name
+ */
+function listLogItemNames(parseResult: ParseResult, format: LogFormat): Token[][] {
+  return parseResult.logItems
+    .map((logItem: Token[]) => getLogItemName(logItem, format))
+    .filter((name: string | null) => name !== null)
+    .map((name: string | null) => [{ type: TOKEN_IDENTIFIER, value: name! }]);
+}
+
+/**
+ * Check whether the given log item is written as a parameter after the interpolated string in place of a positionalSpecifier.
+ *
+ * @param logItem The tokens of the log item
+ * @param format The LogFormat to use for log syntax
+ * @returns true if the log item is a positional parameter
+ */
+function isPositional(logItem: Token[], format: LogFormat): boolean {
+  return !!format.positionalSpecifier && !isOnlyLiterals(logItem) && !isPlainIdentifier(logItem);
+}
+
 /**
  * A function for building the list of tokens for logging based on the given LoggerConfig.
  * Returns a string such as '"someVar:", someVar, "otherVar:", otherVar' or '"someVar:" + someVar.toString() + "otherVar:" + otherVar.toString()'
@@ -95,14 +254,110 @@ function createLogItemKey(serializedItemValue: string, isFirst: boolean, format:
 function listLogItems(parseResult: ParseResult, format: LogFormat, usingLogId: boolean) {
   return parseResult.logItems.map((logItem: Token[], i: number) => {
     const serializedItemValue = serializeTokens(logItem, format.quoteCharacter);
-    const itemIsOnlyLiterals = !logItem.find((t: Token) => t.type === TOKEN_IDENTIFIER || t.type === TOKEN_KEYWORD);
-    return (!itemIsOnlyLiterals ? createLogItemKey(serializedItemValue, !usingLogId && i === 0, format) + format.parameterSeparator : '')
+    const hasKey = !format.omitItemKeys && !isOnlyLiterals(logItem);
+    const keySeparator = format.itemKeySeparator || format.parameterSeparator;
+    return (hasKey ? createLogItemKey(serializedItemValue, !usingLogId && i === 0, format) + keySeparator : '')
         + format.identifierPrefix
         + serializedItemValue
         + format.identifierSuffix;
   }).join(format.parameterSeparator);
 }
 
+/**
+ * Get the format specifier to use for the given log item. The type hint of the log item's first token
+ * is looked up from the formatSpecifiers of the LogFormat, falling back to the formatSpecifier.
+ *
+ * @param logItem The tokens of the log item
+ * @param format The LogFormat to use for log syntax
+ * @returns The format specifier, eg. '%d'
+ */
+function getFormatSpecifier(logItem: Token[], format: LogFormat): string {
+  const typeHint = logItem[0]?.typeHint;
+  return (typeHint && format.formatSpecifiers?.[typeHint]) || format.formatSpecifier!;
+}
+
+/**
+ * Get what follows a log item key inside an interpolated string or a format string, eg. ': ' in 'a: %v'.
+ *
+ * @param format The LogFormat to use for log syntax
+ * @returns The item key suffix
+ */
+export function getStringItemKeySuffix(format: LogFormat): string {
+  return format.itemKeySeparator ?? ':' + (format.insertSpaces ? ' ' : '');
+}
+
+/**
+ * A function for building the contents of an interpolated string or a format string for logging based on the given LogFormat.
+ * Returns a string such as 'someVar: ${someVar} otherVar: ${otherVar}' or 'someVar: %v otherVar: %v' depending on the LogFormat.
+ * Items that are only literals are written into the string as they are.
+ *
+ * @param parseResult The parse result to get tokens from
+ * @param format The LogFormat to use for log syntax
+ * @returns The contents of the string, without the quotation marks
+ */
+function listStringLogItems(parseResult: ParseResult, format: LogFormat): string {
+  return parseResult.logItems.map((logItem: Token[]) => {
+    if (isOnlyLiterals(logItem)) return escapeString(logItem.map((t: Token) => '' + t.value).join(''), format.quoteCharacter);
+    const serializedItemValue = serializeTokens(logItem, format.quoteCharacter);
+    const key = format.omitItemKeys ? '' : shortenIdentifier(serializedItemValue) + getStringItemKeySuffix(format);
+    if (format.formatSpecifier) return escapeString(key, format.quoteCharacter) + getFormatSpecifier(logItem, format);
+    if (isPositional(logItem, format)) return escapeString(key, format.quoteCharacter) + format.positionalSpecifier;
+    return escapeString(key, format.quoteCharacter)
+        + format.identifierPrefix
+        + serializedItemValue
+        + format.identifierSuffix;
+  }).join(format.interpolate ? format.parameterSeparator : ' ');
+}
+
+/**
+ * A function for building the list of parameters that follow the format string based on the given LogFormat.
+ * Items that are only literals are already written into the format string so they are skipped.
+ *
+ * @param parseResult The parse result to get tokens from
+ * @param format The LogFormat to use for log syntax
+ * @returns The parameters as a string, each prefixed with the parameterSeparator
+ */
+function listFormatStringParameters(parseResult: ParseResult, format: LogFormat): string {
+  return parseResult.logItems
+    .filter((logItem: Token[]) => !isOnlyLiterals(logItem))
+    .map((logItem: Token[]) => {
+      return format.parameterSeparator
+        + format.identifierPrefix
+        + serializeTokens(logItem, format.quoteCharacter)
+        + format.identifierSuffix;
+    }).join('');
+}
+
+/**
+ * A function for building the list of parameters that follow an interpolated string for the log items that can not be
+ * interpolated (see positionalSpecifier).
+ *
+ * @param parseResult The parse result to get tokens from
+ * @param format The LogFormat to use for log syntax
+ * @returns The parameters as a string, each prefixed with a comma
+ */
+function listPositionalParameters(parseResult: ParseResult, format: LogFormat): string {
+  return parseResult.logItems
+    .filter((logItem: Token[]) => isPositional(logItem, format))
+    .map((logItem: Token[]) => POSITIONAL_PARAMETER_SEPARATOR + serializeTokens(logItem, format.quoteCharacter))
+    .join('');
+}
+
+/**
+ * Check whether the interpolated string should be wrapped in the alternateQuoteCharacter of the LogFormat, because a log
+ * item inside it contains the quoteCharacter.
+ *
+ * @param parseResult The parsed items to log
+ * @param format The LogFormat to use for log syntax
+ * @returns true if the alternateQuoteCharacter should be used
+ */
+function needsAlternateQuote(parseResult: ParseResult, format: LogFormat): boolean {
+  if (!format.interpolate || !format.alternateQuoteCharacter) return false;
+  return parseResult.logItems
+    .filter((logItem: Token[]) => !isOnlyLiterals(logItem) && !isPositional(logItem, format))
+    .some((logItem: Token[]) => serializeTokens(logItem, format.quoteCharacter).includes(format.quoteCharacter));
+}
+
 /**
  * Take a final ParseResult object with logItems defined and return a log statement that matches
  * the LogFormat that is either passed in or, if not, taken from the ParseResult object.
@@ -111,18 +366,43 @@ function listLogItems(parseResult: ParseResult, format: LogFormat, usingLogId: b
  * @param format (optional) The format to log the items in. If omitted, the one on the parseResult is used.
  * @returns A log statement
  */
-export function log(parseResult: ParseResult, format?: LogFormat) {
+export function log(parseResult: ParseResult, format?: LogFormat): string {
   if (!format) format = parseResult.logFormat;
   if (!format) throw new Error('LogMagic: log needs to be passed a LogFormat or have one on the ParseResult object');
+  if (format.namesOnly) parseResult = { ...parseResult, logItems: listLogItemNames(parseResult, format) };
+  if (needsAlternateQuote(parseResult, format)) {
+    // The strings inside the log items keep the quoteCharacter, only the interpolated string is wrapped in the alternate one
+    const { quoteCharacter } = format;
+    const logItems = parseResult.logItems.map((logItem: Token[]) => logItem.map((t: Token) => {
+      return t.type === TOKEN_STRING && !t.quoteCharacter ? { ...t, quoteCharacter } : t;
+    }));
+    const alternateFormat = { ...format, quoteCharacter: format.alternateQuoteCharacter!, alternateQuoteCharacter: undefined };
+    return log({ ...parseResult, logItems }, alternateFormat);
+  }
   const { logId, logItems } = parseResult;
   const params = [];
 
   const logIdMatchesItemKey = logId && logItems.length && serializeToken(logId, format.quoteCharacter) === serializeTokens(logItems[0], format.quoteCharacter);
-  const useLogId = !!logId && !logIdMatchesItemKey;
-  if (useLogId) params.push(quoteString('' + logId.value, format.quoteCharacter));
+  const useLogId = !!logId && !logIdMatchesItemKey && !format.omitLogId;
+
+  if (format.interpolate || format.formatSpecifier) {
+    if (useLogId) params.push(escapeString('' + logId.value, format.quoteCharacter));
+    if (logItems.length) params.push(listStringLogItems(parseResult, format));
+    const str = params.join(format.interpolate ? format.parameterSeparator : ' ') + (format.stringSuffix || '');
+    return format.logPrefix
+      + format.quoteCharacter + str + format.quoteCharacter
+      + (format.formatSpecifier ? listFormatStringParameters(parseResult, format) : listPositionalParameters(parseResult, format))
+      + format.logSuffix;
+  }
+
+  if (useLogId) params.push(quoteString('' + logId.value, logId.quoteCharacter || format.quoteCharacter));
+  else if (format.logIdSeparator && logItems.length) {
+    params.push(quoteString(serializeTokens(logItems[0], format.quoteCharacter), format.quoteCharacter));
+  }
 
   if (logItems.length) params.push(listLogItems(parseResult, format, useLogId));
 
+  if (format.logIdSeparator) return format.logPrefix + params[0] + format.logIdSeparator + (params[1] || '') + format.logSuffix;
   return format.logPrefix
     + params.join(format.parameterSeparator)
     + format.logSuffix;
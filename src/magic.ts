@@ -4,17 +4,29 @@ import {
   createLogger, LogFormat, Logger, LoggerConfig,
 } from './logger';
 import { createLogRotator, LogRotator } from './logRotator';
+import type { AstScriptKind } from './astParser';
+import { CodeBlockPatterns } from './util';
 
 /**
  * A magical item allowing us to output a log statement with a single keypress.
+ * Languages can provide an alternative parser that parses a syntax tree of the code instead of running the parse sequence
+ * on the tokens. loadAstParser loads it on first use, since it needs the typescript compiler.
+ * logIdKeywords are the keywords that the parser uses as log ids (`if`, `return`, ...), lineComment starts
+ * a single line comment and codeBlockPatterns match the lines that open or close code blocks without brackets.
+ * declaresOnAssignment tells whether assigning to a name declares it (`x = 1`).
  */
 export type MagicItem = {
   tokenize: Tokenizer;
   parse: Parser;
+  loadAstParser?: () => Promise<Parser>;
   log: Logger;
   rotateLog: LogRotator;
   getCaretPosition: (logStatement: string) => number;
   isLogStatement: (logStatement: string) => boolean;
+  logIdKeywords: string[];
+  lineComment: string;
+  codeBlockPatterns: CodeBlockPatterns;
+  declaresOnAssignment: boolean;
 }
 
 /**
@@ -26,6 +38,14 @@ export type MagicItems = {
 
 let magicItems: MagicItems = {};
 
+/**
+ * The names of the modules in ./languages that implement a language.
+ */
+const LANGUAGE_MODULES = [
+  'c', 'cpp', 'csharp', 'dart', 'go', 'java', 'javascript', 'kotlin',
+  'lua', 'php', 'python', 'ruby', 'rust', 'shell', 'swift', 'typescript',
+];
+
 /**
  * A function for converting languageId to its corresponding
  * module name. This allows to override and reuse language modules.
@@ -38,21 +58,46 @@ function languageIdToModuleName(languageId: string): string {
   return {
     javascriptreact: 'javascript',
     typescriptreact: 'typescript',
+    'cuda-cpp': 'cpp',
+    shellscript: 'shell',
   }[languageId] || languageId; // Pass through if no override found
 }
 
+/**
+ * Check whether there is a language module for the given language, ie. whether its code is logged with its own
+ * rules instead of those of the fallback language.
+ *
+ * @param languageId The language id
+ * @returns true if the language has a module
+ */
+export function hasLanguageModule(languageId: string): boolean {
+  return LANGUAGE_MODULES.includes(languageIdToModuleName(languageId));
+}
+
 /**
  * A function for determining where the caret should be positioned after logging the line.
  * Each language can implement and export their own getDefaultCaretPosition function but if none
  * is provided this default function is used instead.
  *
- * The default function puts the caret at the end of the log statement just before the log suffix.
+ * The default function puts the caret at the end of the log statement just before the log suffix
+ * (or inside the string for interpolated log formats).
  *
  * @param loggerConfig The loggerConfig that contains the possible log statement format for the line
  * @returns (logStatement: string): number - a function that returns an index where the caret should be positioned in the statement
  */
 const createDefaultGetCaretPositionFn = (loggerConfig: LoggerConfig) => {
   return (logStatement: string): number => {
+    // Prefer the format with the longest matching logPrefix, fall back to matching the logSuffix only
+    let matchingFormat: LogFormat | undefined;
+    for (let i = 0; i < loggerConfig.length; i++) {
+      const logFormat: LogFormat = loggerConfig[i];
+      if (!logStatement.startsWith(logFormat.logPrefix) || !logStatement.endsWith(logFormat.logSuffix)) continue;
+      if (!matchingFormat || logFormat.logPrefix.length > matchingFormat.logPrefix.length) matchingFormat = logFormat;
+    }
+    if (matchingFormat) {
+      const suffix = (matchingFormat.interpolate ? matchingFormat.quoteCharacter : '') + matchingFormat.logSuffix;
+      return logStatement.length - suffix.length;
+    }
     for (let i = 0; i < loggerConfig.length; i++) {
       const logFormat: LogFormat = loggerConfig[i];
       if (logStatement.endsWith(logFormat.logSuffix)) return logStatement.length - logFormat.logSuffix.length;
@@ -78,6 +123,21 @@ const createIsLogStatementFn = (loggerConfig: LoggerConfig) => {
   };
 };
 
+/**
+ * Create a function that loads the typescript compiler and creates a parser with it the first time it is called.
+ *
+ * @param logIdKeywords The keywords that can be used as the log id
+ * @param scriptKinds The kinds of scripts to try parsing statements as
+ * @returns (): Promise<Parser> - a function that returns the parser
+ */
+const createLoadAstParserFn = (logIdKeywords: string[], scriptKinds: AstScriptKind[]) => {
+  let parser: Promise<Parser> | undefined;
+  return (): Promise<Parser> => {
+    if (!parser) parser = import('./astParser').then(({ createAstParser }) => createAstParser(logIdKeywords, scriptKinds));
+    return parser;
+  };
+};
+
 /**
  * Imports the components, creates and caches the magic for a given language.
  * The MagicItems only include default log formats. User-defined configuration is not included.
@@ -90,15 +150,22 @@ export async function getMagicItem(languageId: string, fallbackId: string = 'jav
   if (!magicItems[moduleName]) {
     try {
       const {
-        parseSequence, tokenizerConfig, loggerConfig, getCaretPosition,
+        parseSequence, AST_SCRIPT_KINDS, tokenizerConfig, loggerConfig, getCaretPosition, LOG_ID_KEYWORDS, CODE_BLOCK_PATTERNS,
+        DECLARES_ON_ASSIGNMENT,
       } = await import('./languages/' + moduleName);
+      const lineComment = tokenizerConfig.SINGLE_LINE_COMMENT;
       magicItems[moduleName] = <MagicItem>{
         tokenize: createTokenizer(tokenizerConfig),
         parse: createParser(parseSequence),
+        loadAstParser: AST_SCRIPT_KINDS && createLoadAstParserFn(LOG_ID_KEYWORDS || [], AST_SCRIPT_KINDS),
         log: createLogger(loggerConfig[0]),
         rotateLog: createLogRotator(loggerConfig),
         getCaretPosition: getCaretPosition || createDefaultGetCaretPositionFn(loggerConfig),
         isLogStatement: createIsLogStatementFn(loggerConfig),
+        logIdKeywords: LOG_ID_KEYWORDS || [],
+        lineComment: Array.isArray(lineComment) ? lineComment[0] : lineComment,
+        codeBlockPatterns: CODE_BLOCK_PATTERNS || { opening: [], closing: [] },
+        declaresOnAssignment: !!DECLARES_ON_ASSIGNMENT,
       };
     } catch (e) {
       return getMagicItem(fallbackId); // Return default parser if no direct implementation for this language exists
@@ -8,11 +8,14 @@ import {
   TOKEN_NUMBER,
   TOKEN_OPERATOR,
   TOKEN_PUNCTUATION,
+  TOKEN_REGEX,
   TOKEN_STRING,
+  TOKEN_UNKNOWN,
   TOKEN_WHITESPACE,
 } from './tokenizer';
 import {
   serializeTokens, getCodeBlockAt, getExpressionAt, isCompleteCodeBlock, getMatchingTokens, serializeToken, getMatchingTokensRe,
+  extendTokenSpan,
 } from './util';
 
 /**
@@ -124,8 +127,10 @@ export const common = {
 
         if (tokenChain.length < 2) continue;
 
+        const combinedTokens = prefixTokens.concat(tokenChain).concat(suffixTokens);
         tokens[i].type = newType;
-        tokens[i].value = serializeTokens(prefixTokens.concat(tokenChain).concat(suffixTokens));
+        tokens[i].value = serializeTokens(combinedTokens);
+        extendTokenSpan(tokens[i], combinedTokens[combinedTokens.length - 1]);
         tokens.splice(i + 1, prefixTokens.length + tokenChain.length + suffixTokens.length - 1);
       }
     };
@@ -151,6 +156,7 @@ export const common = {
         if (!match) continue;
         tokens[i].type = newType;
         tokens[i].value = match.join(separator);
+        extendTokenSpan(tokens[i], tokens[i + match.length - 1]);
         tokens.splice(i + 1, match.length - 1);
       }
     };
@@ -164,6 +170,7 @@ export const common = {
         if (!match.length) continue;
         tokens[i].type = newType;
         tokens[i].value = match.join(separator);
+        extendTokenSpan(tokens[i], tokens[i + match.length - 1]);
         tokens.splice(i + 1, match.length - 1);
       }
     };
@@ -191,6 +198,7 @@ export const common = {
         if (!isCompleteCodeBlock(block)) break;
 
         token.value += serializeTokens(block);
+        extendTokenSpan(token, block[block.length - 1]);
 
         // Remove the [...] part unless there's an identifier in there
         // and move j accordingly so we can look for another [...] block after this one
@@ -214,12 +222,23 @@ export const common = {
    * @param result The result to parse and modify in place.
    */
   removeLambdas: (result: ParseResult): void => {
+    common.getRemoveLambdasFn('=>')(result);
+  },
+
+  /**
+   * Return a ParseStep function that works like `removeLambdas` but for languages that use a different
+   * lambda operator, like `->` in java.
+   *
+   * @param lambdaOperator The operator between the lambda parameters and the lambda body
+   * @returns A ParseStep function
+   */
+  getRemoveLambdasFn: (lambdaOperator: string): ParseStep => (result: ParseResult): void => {
     // Remove complete lambdas that may have a defined parameter list
     const tokens = result.tokens;
     let skippedLambdaIndex = 0; // If we skip lambdas, we search for next ones from this index
 
     const findNextLambdaOperatorIndex = (tokens: Token[], fromIndex: number) => {
-      return tokens.findIndex((t: Token, i: number) => i >= fromIndex && t.type === TOKEN_OPERATOR && t.value === '=>');
+      return tokens.findIndex((t: Token, i: number) => i >= fromIndex && t.type === TOKEN_OPERATOR && t.value === lambdaOperator);
     };
 
     for (let q = 0; q < 9999; q++) { // q is just infinite loop protection
@@ -283,6 +302,117 @@ export const common = {
     }
   },
 
+  /**
+   * Remove annotations (`@Override`, `@NonNull String a`, `@Named("id") String a`).
+   * An annotation is the `@` character, the (possibly chained) identifier following it and its parameters if there are any.
+   *
+   * @param result The result to parse and modify in place.
+   */
+  removeAnnotations: (result: ParseResult): void => {
+    const tokens = result.tokens;
+    const isPunctuation = (t: Token | undefined, value: string) => t?.type === TOKEN_PUNCTUATION && t.value === value;
+    for (let i = 0; i < tokens.length; i++) {
+      if (!isPunctuation(tokens[i], '@') || tokens[i + 1]?.type !== TOKEN_IDENTIFIER) continue;
+      const params = isPunctuation(tokens[i + 2], '(') ? getCodeBlockAt(tokens, i + 2) : [];
+      tokens.splice(i, 2 + (isCompleteCodeBlock(params) ? params.length : 0));
+      i--;
+    }
+  },
+
+  /**
+   * Remove generics (`<...>`), like `List<Map<String, Integer>>`, `<T> void fn(T a)` or `fun <T : Any> fn(a: T)`.
+   * Since `>>` and `>>>` are read as single tokens, the angle brackets are matched by counting the nesting depth.
+   * If it finds something that can not be a part of a type inside the `<...>` block it assumes it is a comparison
+   * instead and leaves it alone.
+   *
+   * @param result The result to parse and modify in place.
+   */
+  removeGenerics: (result: ParseResult): void => {
+    const NON_TYPE_OPERATORS = ['&&', '||', '=', '==', '!=', '<=', '>=', '+', '-', '/', '%'];
+    const tokens = result.tokens;
+    const isPunctuation = (t: Token | undefined, value: string) => t?.type === TOKEN_PUNCTUATION && t.value === value;
+
+    function findGenericsEnd(start: number): number {
+      let depth = 0;
+      for (let i = start; i < tokens.length; i++) {
+        const t = tokens[i];
+        if (isPunctuation(t, ';') || isPunctuation(t, '{') || isPunctuation(t, '}') || isPunctuation(t, '(')) return -1;
+        if (t.type !== TOKEN_OPERATOR) continue;
+        if (NON_TYPE_OPERATORS.includes('' + t.value)) return -1;
+        if (t.value === '<') depth++;
+        else if (t.value === '>') depth--;
+        else if (t.value === '>>') depth -= 2;
+        else if (t.value === '>>>') depth -= 3;
+        if (depth === 0) return i;
+        if (depth < 0) return -1;
+      }
+      return -1;
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== TOKEN_OPERATOR) continue;
+      if (tokens[i].value === '<>') {
+        // The diamond operator (`new ArrayList<>()`)
+        tokens.splice(i, 1);
+        i--;
+        continue;
+      }
+      if (tokens[i].value !== '<') continue;
+      const end = findGenericsEnd(i);
+      if (end === -1) continue;
+      tokens.splice(i, end - i + 1);
+      i--;
+    }
+  },
+
+  /**
+   * Remove types that are written in front of identifiers (`String name`, `Map m`).
+   * It detects N consecutive identifiers and removes all but the last.
+   *
+   * @param result The result to parse and modify in place.
+   */
+  removeTypePrefixes: (result: ParseResult): void => {
+    result.tokens = result.tokens.filter((t: Token, i: number) => {
+      return t.type !== TOKEN_IDENTIFIER || result.tokens[i + 1]?.type !== TOKEN_IDENTIFIER;
+    });
+  },
+
+  /**
+   * Remove type checks and casts (`x is String`, `x as? Int`, `x as! Int`, `x is! int`).
+   *
+   * @param result The result to parse and modify in place.
+   */
+  removeTypeChecks: (result: ParseResult): void => {
+    const tokens = result.tokens;
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (tokens[i].type !== TOKEN_KEYWORD || (tokens[i].value !== 'is' && tokens[i].value !== 'as')) continue;
+      const typePos = tokens[i + 1].value === '?' || tokens[i + 1].value === '!' ? i + 2 : i + 1;
+      if (tokens[typePos]?.type !== TOKEN_IDENTIFIER) continue;
+      tokens.splice(i, typePos - i + 1);
+      i--;
+    }
+  },
+
+  /**
+   * Insert the tokens of the expressions embedded in template strings (`"a: $a, b: ${b.c}"`) after the string token
+   * so that they can be logged. Each expression is preceded by a comma to keep it separate from the surrounding tokens.
+   * The string token itself is left as it is.
+   *
+   * @param result The result to parse and modify in place.
+   */
+  insertTemplateExpressions: (result: ParseResult): void => {
+    const tokens = result.tokens;
+    for (let i = 0; i < tokens.length; i++) {
+      const expressions = tokens[i].expressions;
+      if (tokens[i].type !== TOKEN_STRING || !expressions) continue;
+      const inserted: Token[] = [];
+      expressions.forEach((expression: Token[]) => {
+        inserted.push({ type: TOKEN_PUNCTUATION, value: ',' }, ...expression.map((t: Token) => ({ ...t })));
+      });
+      tokens.splice(i + 1, 0, ...inserted);
+    }
+  },
+
   /**
    * Return a ParseStep function for cleaning up identifiers which were part of a chain that could not be
    * combined int a single identifier (via getCombineConsecutiveTokensOfTypeFn).
@@ -397,11 +527,11 @@ export const common = {
   },
 
   /**
-   * Remove all strings and numbers from the ParseResult.
+   * Remove all strings, numbers and regular expressions from the ParseResult.
    * @param result The result to parse and modify in place.
    */
   removeLiterals: (result: ParseResult): void => {
-    result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_STRING && t.type !== TOKEN_NUMBER);
+    result.tokens = result.tokens.filter((t: Token) => t.type !== TOKEN_STRING && t.type !== TOKEN_NUMBER && t.type !== TOKEN_REGEX);
   },
 
   /**
@@ -491,12 +621,13 @@ export const common = {
 
 /**
  * A function that creates a Parser using the given sequence and tokenizer configuration.
+ * Unknown tokens are ignored so that the parse steps only see tokens of the language syntax.
  * @param sequence The sequence which is used to parse the input string.
  * @returns A Parser function
  */
 export function createParser(sequence: ParseSequence): Parser {
   const parse: Parser = (tokens: Token[]): ParseResult => {
-    const result: ParseResult = { tokens, logItems: [] };
+    const result: ParseResult = { tokens: tokens.filter((t: Token) => t.type !== TOKEN_UNKNOWN), logItems: [] };
     sequence.forEach((fn: ParseStep) => fn(result));
     return result;
   };
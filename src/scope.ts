@@ -0,0 +1,236 @@
+import { Parser } from './parser';
+import {
+  Token, TOKEN_COMMENT, TOKEN_IDENTIFIER, TOKEN_KEYWORD, TOKEN_PUNCTUATION, TOKEN_WHITESPACE,
+} from './tokenizer';
+import {
+  closingP, getStatementRange, isFunctionHeader, openingP, serializeTokens,
+} from './util';
+
+/**
+ * The options for finding the variables in scope.
+ *
+ * tokenize: The tokenizer of the language
+ * parse: The parser of the language, used for finding the identifiers of each statement
+ * firstLine: (optional) The first line of the code, eg. the first line of an embedded script region
+ * declaresOnAssignment: (optional) Whether assigning to a name declares it, like `x = 1` in python and ruby
+ */
+export type ScopeOptions = {
+  tokenize: (code: string) => Token[];
+  parse: Parser;
+  firstLine?: number;
+  declaresOnAssignment?: boolean;
+};
+
+const DECLARATION_KEYWORDS = ['const', 'let', 'var', 'val', 'auto', 'final', 'local', 'my'];
+const FUNCTION_KEYWORDS = ['function', 'def', 'func', 'fun', 'fn'];
+const LOOP_KEYWORDS = ['for', 'foreach'];
+const CATCH_KEYWORDS = ['catch'];
+const ASSIGNMENT_OPERATORS = ['=', ':='];
+const LOOP_BINDING_ENDS = ['=', ':=', ':', 'of', 'in'];
+const NAME_REGEX = /^[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$@]+$/u;
+
+function isCode(t: Token): boolean {
+  return t.type !== TOKEN_WHITESPACE && t.type !== TOKEN_COMMENT;
+}
+
+/**
+ * Find the first token of the given values that is not inside parentheses, brackets or braces.
+ *
+ * @param tokens The tokens to search
+ * @param values The values to look for
+ * @param fromIndex The index to start from
+ * @returns The index of the token or -1 if there is none
+ */
+function findTopLevelToken(tokens: Token[], values: string[], fromIndex: number = 0): number {
+  let depth = 0;
+  for (let i = fromIndex; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.type === TOKEN_PUNCTUATION && openingP.includes('' + t.value)) depth++;
+    else if (t.type === TOKEN_PUNCTUATION && closingP.includes('' + t.value)) depth--;
+    else if (depth === 0 && t.type !== TOKEN_PUNCTUATION && values.includes('' + t.value)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find the parts of a declaration that bind names: everything that is not an initializer. `const a = 1, b = 2` binds
+ * `a` and `b`, but not the `1`.
+ *
+ * @param tokens The tokens of the declaration
+ * @returns The start and end positions of each part that binds names
+ */
+function findBindingRanges(tokens: Token[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  let depth = 0;
+  let rangeStart: number | null = 0;
+  tokens.forEach((t: Token) => {
+    if (t.type === TOKEN_PUNCTUATION && openingP.includes('' + t.value)) depth++;
+    else if (t.type === TOKEN_PUNCTUATION && closingP.includes('' + t.value)) depth--;
+    if (depth !== 0) return;
+    if (rangeStart !== null && ASSIGNMENT_OPERATORS.includes('' + t.value) && t.type !== TOKEN_PUNCTUATION) {
+      ranges.push([rangeStart, t.start!]);
+      rangeStart = null;
+    } else if (rangeStart === null && t.type === TOKEN_PUNCTUATION && t.value === ',') {
+      rangeStart = t.end!;
+    }
+  });
+  if (rangeStart !== null) ranges.push([rangeStart, Infinity]);
+  return ranges;
+}
+
+/**
+ * Check whether the tokens before an assignment declare a variable with a type (`int count`, `List<string> names`)
+ * rather than assign to an existing one (`count`, `this.count`, `items[0]`).
+ *
+ * @param tokens The code tokens before the assignment
+ * @returns true if the tokens declare a variable
+ */
+function isTypedDeclaration(tokens: Token[]): boolean {
+  if (tokens.length < 2 || tokens[0].type === TOKEN_PUNCTUATION) return false;
+  return tokens.every((t: Token, i: number) => {
+    if (['.', '->', '::', '('].includes('' + t.value)) return false;
+    return t.value !== '[' || tokens[i + 1]?.value === ']';
+  });
+}
+
+/**
+ * Find the names that a statement binds, like the names declared with `const`, `let` and `var` (also destructured
+ * ones), variables declared with a type or by assigning to them, the parameters of a function header, the variables of
+ * a `for` loop and the exception of a `catch` clause. The identifiers are found by the parser of the language and
+ * the declared ones are told apart by their position in the statement.
+ *
+ * @param tokens The tokens of the statement, without leading closing braces
+ * @param options The ScopeOptions of the language
+ * @param isFunction Whether the statement is a function header
+ * @returns The bound names
+ */
+function findBoundNames(tokens: Token[], options: ScopeOptions, isFunction: boolean): string[] {
+  const code = tokens.filter(isCode);
+  if (!code.length) return [];
+  const first = '' + code[0].value;
+
+  // The positions of the statement whose identifiers are bound
+  let ranges: [number, number][] = [];
+  let isTyped = false;
+  if (isFunction || CATCH_KEYWORDS.includes(first)) {
+    ranges = [[0, Infinity]];
+  } else if (LOOP_KEYWORDS.includes(first)) {
+    const parenIndex = tokens.findIndex((t: Token) => t.type === TOKEN_PUNCTUATION && t.value === '(');
+    const end = findTopLevelToken(tokens, LOOP_BINDING_ENDS, parenIndex + 1);
+    if (end >= 0) ranges = [[0, tokens[end].start!]];
+  } else {
+    const assignment = findTopLevelToken(tokens, ASSIGNMENT_OPERATORS);
+    if (assignment >= 0 && tokens[assignment].value === ':=') {
+      ranges = [[0, tokens[assignment].start!]];
+    } else if (code[0].type === TOKEN_KEYWORD && DECLARATION_KEYWORDS.includes(first)) {
+      ranges = findBindingRanges(tokens);
+    } else if (assignment >= 0 && options.declaresOnAssignment) {
+      ranges = [[0, tokens[assignment].start!]];
+    } else if (assignment >= 0 && isTypedDeclaration(tokens.slice(0, assignment).filter(isCode))) {
+      ranges = [[0, tokens[assignment].start!]];
+      isTyped = true;
+    }
+  }
+  if (!ranges.length) return [];
+
+  const isBound = (t: Token) => ranges.some(([start, end]: [number, number]) => t.start! >= start && t.start! < end);
+  const names = options.parse(tokens).logItems
+    .filter((logItem: Token[]) => logItem.length === 1 && isBound(logItem[0]))
+    .map((logItem: Token[]) => serializeTokens(logItem))
+    .filter((name: string) => NAME_REGEX.test(name));
+  // Only the last name before the assignment of a typed declaration is declared, the others are types
+  return isTyped ? names.slice(-1) : names;
+}
+
+/**
+ * Find the name of the function that a function header declares (`function helper(q) {`, `def helper(q):`,
+ * `const format = (v) => {`).
+ *
+ * @param code The code tokens of the function header
+ * @returns The name of the function, or nothing if the function is anonymous
+ */
+function findFunctionName(code: Token[]): string[] {
+  const isDeclaration = code[0]?.type === TOKEN_KEYWORD && DECLARATION_KEYWORDS.includes('' + code[0].value);
+  const i = isDeclaration ? 0 : code.findIndex((t: Token) => t.type === TOKEN_KEYWORD && FUNCTION_KEYWORDS.includes('' + t.value));
+  const name = i >= 0 ? code[i + 1] : undefined;
+  return name?.type === TOKEN_IDENTIFIER && NAME_REGEX.test('' + name.value) ? ['' + name.value] : [];
+}
+
+/**
+ * Find the variables in scope at the given line: the names bound by the statements before it (and by the statement on
+ * the line itself) in the blocks that enclose the line. Names bound in blocks that are closed before the line are
+ * not in scope. The statements are read from the first line of the code, so that the declarations of the module and
+ * of enclosing functions are included.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The line to find the variables in scope of
+ * @param options The ScopeOptions of the language
+ * @returns The names of the variables in the order they were bound in
+ */
+export function findVariablesInScope(lines: string[], lineNr: number, options: ScopeOptions): string[] {
+  const start = options.firstLine || 0;
+  const scopes: string[][] = [[]];
+  let isBraceOfHeader = false;
+  for (let i = start; i <= lineNr;) {
+    // Statements that span the line, like a call with a lambda argument that the line is in, are read line by line
+    const statementEnd = Math.max(i, getStatementRange(lines, i).end);
+    const end = statementEnd > lineNr ? i : statementEnd;
+    const tokens = options.tokenize(lines.slice(i, end + 1).map((line: string) => line.trim()).join('\n'));
+    i = end + 1;
+
+    // Closing braces at the start of the statement close the blocks before it is read (`} catch (e) {`)
+    let statementStart = 0;
+    for (; statementStart < tokens.length; statementStart++) {
+      const t = tokens[statementStart];
+      if (t.type === TOKEN_PUNCTUATION && t.value === '}') {
+        if (scopes.length > 1) scopes.pop();
+      } else if (isCode(t)) break;
+    }
+    const statement = tokens.slice(statementStart);
+    const code = statement.filter(isCode);
+    const opened = code.filter((t: Token) => t.type === TOKEN_PUNCTUATION && t.value === '{').length;
+    const closed = code.filter((t: Token) => t.type === TOKEN_PUNCTUATION && t.value === '}').length;
+
+    // The block of a header with its opening brace on the next line is opened by the header
+    if (isBraceOfHeader && code.length === 1 && opened === 1) {
+      isBraceOfHeader = false;
+      continue;
+    }
+    const braceOnNextLine = !opened && i <= lineNr && /^\s*\{\s*$/.test(lines[i]);
+    const opensBlock = braceOnNextLine || (code.length > 0 && code[code.length - 1].value === '{');
+
+    // Headers bind their names inside the block that they open, except for the name of the function they declare
+    // (`function helper(q) {`, `const format = (v) => {`)
+    const first = code.length ? '' + code[0].value : '';
+    const isFunction = opensBlock && isFunctionHeader(serializeTokens(statement).replace(/\{\s*$/, ''));
+    const isHeader = isFunction || (opensBlock && [...LOOP_KEYWORDS, ...CATCH_KEYWORDS].includes(first));
+    const declared = isFunction ? findFunctionName(code) : [];
+    const names = findBoundNames(statement, options, isFunction).filter((name: string) => !declared.includes(name));
+    scopes[scopes.length - 1].push(...declared);
+    if (!isHeader) scopes[scopes.length - 1].push(...names);
+    if (isHeader && braceOnNextLine) {
+      scopes.push([]);
+      isBraceOfHeader = true;
+    }
+    for (let j = 0; j < opened - closed; j++) scopes.push([]);
+    for (let j = 0; j < closed - opened && scopes.length > 1; j++) scopes.pop();
+    if (isHeader) scopes[scopes.length - 1].push(...names);
+  }
+
+  // Names bound again in an inner block shadow the outer ones
+  const variables: string[] = [];
+  scopes.forEach((scope: string[]) => scope.forEach((name: string) => {
+    if (!variables.includes(name)) variables.push(name);
+  }));
+  return variables;
+}
+
+/**
+ * Create the log items for the given variable names.
+ *
+ * @param names The variable names
+ * @returns A log item for each variable
+ */
+export function createVariableLogItems(names: string[]): Token[][] {
+  return names.map((name: string) => [{ type: TOKEN_IDENTIFIER, value: name }]);
+}
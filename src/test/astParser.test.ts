@@ -0,0 +1,140 @@
+/* eslint-disable no-template-curly-in-string */
+import * as assert from 'assert';
+import { Parser, ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const jsTests = [
+  [
+    'const total = price * 2;',
+    'console.log(\'total:\', total, \'price:\', price);',
+  ],
+  [
+    'const { a, b: [c, , d] } = obj;',
+    'console.log(\'a:\', a, \'c:\', c, \'d:\', d, \'obj:\', obj);',
+  ],
+  [
+    'async function load(url, { retries = 3 } = {}) {',
+    'console.log(\'load\', \'url:\', url, \'retries:\', retries);',
+  ],
+  [
+    'const fn = (a, b) => {',
+    'console.log(\'fn\', \'a:\', a, \'b:\', b);',
+  ],
+  [
+    'success: function(result) {',
+    'console.log(\'success\', \'result:\', result);',
+  ],
+  [
+    '} else if (user.isAdmin(role)) {',
+    'console.log(\'else if\', \'role:\', role);',
+  ],
+  [
+    'return items.map((item) => item.price * rate).filter(Boolean);',
+    'console.log(\'return\', \'Boolean:\', Boolean);',
+  ],
+  [
+    'this.count = a.b[i].c + fn(d).e;',
+    'console.log(\'this.count:\', this.count, \'a.b[i].c:\', a.b[i].c, \'i:\', i, \'d:\', d);',
+  ],
+  [
+    'x = { key: value, short, [computed]: 1 };',
+    'console.log(\'x:\', x, \'value:\', value, \'short:\', short, \'computed:\', computed);',
+  ],
+  [
+    'const type = of.type, of = `${a.b} and ${c}`;',
+    'console.log(\'type:\', type, \'of.type:\', of.type, \'of:\', of, \'a.b:\', a.b, \'c:\', c);',
+  ],
+  [
+    'for (const [key, value] of Object.entries(map)) {',
+    'console.log(\'for\', \'key:\', key, \'value:\', value, \'map:\', map);',
+  ],
+  [
+    'return <Button className={cls} onClick={() => go(id)}>{label}</Button>;',
+    'console.log(\'return\', \'cls:\', cls, \'label:\', label);',
+  ],
+  [
+    'if (a === undefined && /x/.test(b)) {',
+    'console.log(\'if\', \'a:\', a, \'b:\', b);',
+  ],
+];
+
+const tsTests = [
+  [
+    'constructor(private name: string, age: number) {',
+    'console.log(\'constructor\', \'name:\', name, \'age:\', age);',
+  ],
+  [
+    'public async load<T extends Item>(id: string): Promise<T | undefined> {',
+    'console.log(\'load\', \'id:\', id);',
+  ],
+  [
+    'const x = <Foo>y as unknown as Bar;',
+    'console.log(\'x:\', x, \'y:\', y);',
+  ],
+  [
+    'if (user?.profile!.name) {',
+    'console.log(\'if\', \'user?.profile!.name:\', user?.profile!.name);',
+  ],
+  [
+    'const el: JSX.Element = <List items={items} />;',
+    'console.log(\'el:\', el, \'items:\', items);',
+  ],
+  [
+    '@Input() name: string = defaultName;',
+    'console.log(\'defaultName:\', defaultName);',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Javascript AST Parser', () => {
+  let magic: MagicItem;
+  let parseAst: Parser;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(parseAst(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('javascript');
+    parseAst = await magic.loadAstParser!();
+  });
+
+  for (let i = 0; i < jsTests.length; i++) {
+    const t = jsTests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
+
+describe('Typescript AST Parser', () => {
+  let magic: MagicItem;
+  let parseAst: Parser;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(parseAst(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('typescript');
+    parseAst = await magic.loadAstParser!();
+  });
+
+  for (let i = 0; i < tsTests.length; i++) {
+    const t = tsTests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+
+  it('keeps the positions of the logged identifiers', () => {
+    const code = 'const total = compute(\n  user.items[0],\n  `${a.b}`,\n);';
+    const parseResult = parseAst(magic.tokenize(code));
+    const sources = parseResult.logItems.map((logItem) => `${logItem[0].line}: ${code.substring(logItem[0].start!, logItem[0].end!)}`);
+    assert.deepStrictEqual(sources, ['0: total', '1: user.items[0]', '2: a.b']);
+  });
+
+  it('does not log the types of decorated properties', () => {
+    assert.deepStrictEqual(parseAst(magic.tokenize('@Input() name: string;')).logItems, []);
+  });
+});
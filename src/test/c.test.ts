@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'int a = 1;',
+    'printf("a: %d\\n", a);',
+  ],
+  [
+    'const char *name = get_name(user);',
+    'printf("name: %s user: %d\\n", name, user);',
+  ],
+  [
+    'unsigned long n = strlen(name);',
+    'printf("n: %lu name: %d\\n", n, name);',
+  ],
+  [
+    'char buf[32];',
+    'printf("buf: %s\\n", buf);',
+  ],
+  [
+    'double ratio = (double) done / total;',
+    'printf("ratio: %f done: %d total: %d\\n", ratio, done, total);',
+  ],
+  [
+    'struct Point *p = &origin;',
+    'printf("p: %p origin: %d\\n", p, origin);',
+  ],
+  [
+    'static size_t count = 0;',
+    'printf("count: %zu\\n", count);',
+  ],
+  [
+    'int add(int a, int b) {',
+    'printf("add a: %d b: %d\\n", a, b);',
+  ],
+  [
+    'void process(const Foo* foo, int** grid, float scale) {',
+    'printf("process foo: %p grid: %p scale: %f\\n", foo, grid, scale);',
+  ],
+  [
+    'p->next->value = node.value + 1;',
+    'printf("p->next->value: %d node.value: %d\\n", p->next->value, node.value);',
+  ],
+  [
+    'for (int i = 0; i < len; i++) {',
+    'printf("for i: %d len: %d\\n", i, len);',
+  ],
+  [
+    '} else if (x > 0x1Fu && y < 1.5f) {',
+    'printf("else if x: %d y: %d\\n", x, y);',
+  ],
+  [
+    '#define MAX_SIZE 64',
+    'printf("MAX_SIZE: %d\\n", MAX_SIZE);',
+  ],
+  [
+    '#include <stdio.h>',
+    'printf("L124\\n");',
+  ],
+  [
+    'return result;',
+    'printf("return result: %d\\n", result);',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('C Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('c');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'int& b = values[0];',
+    'std::cout << "b: " << b << " values[0]: " << values[0] << std::endl;',
+  ],
+  [
+    'std::vector<std::string> names = getNames();',
+    'std::cout << "names: " << names << std::endl;',
+  ],
+  [
+    'std::map<std::string, std::vector<int>> index;',
+    'std::cout << "index: " << index << std::endl;',
+  ],
+  [
+    'void Foo::bar(const std::string& s, std::unique_ptr<Node> node) const {',
+    'std::cout << "Foo::bar" << " s: " << s << " node: " << node << std::endl;',
+  ],
+  [
+    'auto sum = std::accumulate(v.begin(), v.end(), 0);',
+    'std::cout << "sum: " << sum << std::endl;',
+  ],
+  [
+    'this->count = other.count;',
+    'std::cout << "this->count: " << this->count << " other.count: " << other.count << std::endl;',
+  ],
+  [
+    'for (const auto& item : items) {',
+    'std::cout << "for" << " item: " << item << " items: " << items << std::endl;',
+  ],
+  [
+    'auto twice = [&](int x) { return x * factor; };',
+    'std::cout << "twice: " << twice << std::endl;',
+  ],
+  [
+    'std::sort(v.begin(), v.end(), [](int a, int b) {',
+    'std::cout << "std::sort" << " a: " << a << " b: " << b << std::endl;',
+  ],
+  [
+    'if (ptr != nullptr && ptr->ready) {',
+    'std::cout << "if" << " ptr: " << ptr << " ptr->ready: " << ptr->ready << std::endl;',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('C++ Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('cpp');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
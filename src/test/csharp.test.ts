@@ -124,6 +124,30 @@ const tests = [
     'fn(foo, 0x123F, 12f, 1_233_333, 0b0101_0011, 2L, 2ul, 2UL)',
     'Console.WriteLine("fn" + " foo: " + foo);',
   ],
+  [
+    'var msg = $"Hello {user.Name}, {{literal}} {total:N2} {items.Count,5}";',
+    'Console.WriteLine("msg: " + msg + " user.Name: " + user.Name + " total: " + total + " items.Count: " + items.Count);',
+  ],
+  [
+    'var path = @"C:\\temp\\" + fileName;',
+    'Console.WriteLine("path: " + path + " fileName: " + fileName);',
+  ],
+  [
+    'var quote = @"She said ""hi"" \\" + name;',
+    'Console.WriteLine("quote: " + quote + " name: " + name);',
+  ],
+  [
+    'var json = """{"id": "\\"}""" + suffix;',
+    'Console.WriteLine("json: " + json + " suffix: " + suffix);',
+  ],
+  [
+    'var full = $@"{dir}\\{file}.txt";',
+    'Console.WriteLine("full: " + full + " dir: " + dir + " file: " + file);',
+  ],
+  [
+    'var größe = maße * 2;',
+    'Console.WriteLine("größe: " + größe + " maße: " + maße);',
+  ],
 ];
 
 function mockedEnsureLogId(result: ParseResult) {
@@ -0,0 +1,93 @@
+/* eslint-disable no-template-curly-in-string */
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'final int total = price * quantity;',
+    'print(\'total: ${total} price: ${price} quantity: ${quantity}\');',
+  ],
+  [
+    'String? name = user?.profile.name;',
+    'print(\'name: ${name} user?.profile.name: ${user?.profile.name}\');',
+  ],
+  [
+    'void greet({required String name, int count = 1}) {',
+    'print(\'greet name: ${name} count: ${count}\');',
+  ],
+  [
+    'final List<int>? items = getItems(limit: max, offset: start);',
+    'print(\'items: ${items} max: ${max} start: ${start}\');',
+  ],
+  [
+    'Future<void> fetchUser(String id, [bool force = false]) async {',
+    'print(\'fetchUser id: ${id} force: ${force}\');',
+  ],
+  [
+    'var label = isActive ? activeLabel : \'inactive\';',
+    'print(\'label: ${label} isActive: ${isActive} activeLabel: ${activeLabel}\');',
+  ],
+  [
+    'if (value is String && other as int > 0) {',
+    'print(\'if value: ${value} other: ${other}\');',
+  ],
+  [
+    'print(\'Hello $name, you have ${items.length} items\');',
+    'print(\'print name: ${name} items.length: ${items.length}\');',
+  ],
+  [
+    'final raw = r\'$notInterpolated\' + suffix;',
+    'print(\'raw: ${raw} suffix: ${suffix}\');',
+  ],
+  [
+    'var doubled = values.map((v) => v * 2).toList();',
+    'print(\'doubled: ${doubled}\');',
+  ],
+  [
+    'for (final item in items) {',
+    'print(\'for item: ${item} items: ${items}\');',
+  ],
+  [
+    'Widget build(BuildContext context) {',
+    'print(\'build context: ${context}\');',
+  ],
+  [
+    '@override',
+    'print(\'L124\');',
+  ],
+  [
+    'const Point({required this.x, this.y = 0});',
+    'print(\'Point this.x: ${this.x} this.y: ${this.y}\');',
+  ],
+  [
+    'return widget.title ?? defaultTitle;',
+    'print(\'return widget.title: ${widget.title} defaultTitle: ${defaultTitle}\');',
+  ],
+  [
+    '} else if (count > limit) {',
+    'print(\'else if count: ${count} limit: ${limit}\');',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Dart Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('dart');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
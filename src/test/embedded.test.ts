@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import {
+  findScriptRegions, getEmbeddedRegionAt, getInterpolatedCode, getRegionCode, wrapStatement,
+} from '../embedded';
+
+const vueDocument = [
+  '<template>',
+  '  <div class="user">',
+  '    <p>{{ user.name }} has {{ items.length }} items</p>',
+  '    <button @click="save">Save</button>',
+  '  </div>',
+  '</template>',
+  '',
+  '<script setup lang="ts">',
+  "import { ref } from 'vue';",
+  'const items = ref([]);',
+  '</script>',
+  '',
+  '<style scoped>',
+  '.user { color: red; }',
+  '</style>',
+];
+
+const svelteDocument = [
+  '<script>',
+  '  export let items;',
+  '</script>',
+  '',
+  '{#each items as item}',
+  '  <li>{item.name}</li>',
+  '{/each}',
+];
+
+const astroDocument = [
+  '---',
+  'const { title } = Astro.props;',
+  '---',
+  '<h1>{title}</h1>',
+  '<script>',
+  "  console.log('loaded');",
+  '</script>',
+];
+
+const htmlDocument = [
+  '<html>',
+  '<script type="application/json">',
+  '  { "a": 1 }',
+  '</script>',
+  '<script type="module">',
+  '  init(config);',
+  '</script>',
+  '</html>',
+];
+
+const markdownDocument = [
+  '# Usage',
+  '',
+  '```ts',
+  'const total = price * quantity;',
+  '```',
+  '',
+  '~~~python',
+  'print(total)',
+  '```',
+  '~~~',
+  '',
+  '```',
+  'plain text',
+  '```',
+  '',
+  '```json',
+  '{ "total": 1 }',
+  '```',
+];
+
+describe('Embedded regions', () => {
+  it('finds typescript script regions in vue', () => {
+    assert.deepStrictEqual(getEmbeddedRegionAt(vueDocument, 9, 'vue'), { languageId: 'typescript', startLine: 8, endLine: 9 });
+    assert.deepStrictEqual(findScriptRegions(vueDocument, 'vue'), [{ languageId: 'typescript', startLine: 8, endLine: 9 }]);
+  });
+
+  it('uses the script language for template interpolations', () => {
+    const region = getEmbeddedRegionAt(vueDocument, 2, 'vue');
+    assert.strictEqual(region?.languageId, 'typescript');
+    assert.strictEqual(getRegionCode(vueDocument[2], region!), 'user.name; items.length');
+    assert.strictEqual(wrapStatement("console.log('a:', a);", region!), "{{ console.log('a:', a) || '' }}");
+  });
+
+  it('refuses markup, tags and styles', () => {
+    assert.strictEqual(getEmbeddedRegionAt(vueDocument, 1, 'vue'), null);
+    assert.strictEqual(getEmbeddedRegionAt(vueDocument, 3, 'vue'), null);
+    assert.strictEqual(getEmbeddedRegionAt(vueDocument, 7, 'vue'), null);
+    assert.strictEqual(getEmbeddedRegionAt(vueDocument, 13, 'vue'), null);
+  });
+
+  it('reads svelte block tags and single brace interpolations', () => {
+    assert.strictEqual(getEmbeddedRegionAt(svelteDocument, 1, 'svelte')?.languageId, 'javascript');
+    assert.strictEqual(getInterpolatedCode(svelteDocument[4], { start: '{', end: '}' }), 'items as item');
+    assert.strictEqual(getInterpolatedCode(svelteDocument[6], { start: '{', end: '}' }), '');
+    assert.strictEqual(getEmbeddedRegionAt(svelteDocument, 5, 'svelte')?.interpolation?.start, '{');
+    const line = '<Item {...props} on:click={() => select({ id })} />';
+    assert.strictEqual(getInterpolatedCode(line, { start: '{', end: '}' }), '...props; () => select({ id })');
+  });
+
+  it('treats astro frontmatter and scripts as typescript', () => {
+    assert.deepStrictEqual(findScriptRegions(astroDocument, 'astro'), [
+      { languageId: 'typescript', startLine: 1, endLine: 1 },
+      { languageId: 'typescript', startLine: 5, endLine: 5 },
+    ]);
+    assert.strictEqual(getEmbeddedRegionAt(astroDocument, 3, 'astro')?.languageId, 'typescript');
+  });
+
+  it('skips html scripts that are not javascript', () => {
+    assert.deepStrictEqual(findScriptRegions(htmlDocument, 'html'), [{ languageId: 'javascript', startLine: 5, endLine: 5 }]);
+    assert.strictEqual(getEmbeddedRegionAt(htmlDocument, 2, 'html'), null);
+  });
+
+  it('finds fenced code blocks in markdown', () => {
+    assert.deepStrictEqual(findScriptRegions(markdownDocument, 'markdown'), [
+      { languageId: 'typescript', startLine: 3, endLine: 3 },
+      { languageId: 'python', startLine: 7, endLine: 8 },
+    ]);
+    assert.strictEqual(getEmbeddedRegionAt(markdownDocument, 0, 'markdown'), null);
+    assert.strictEqual(getEmbeddedRegionAt(markdownDocument, 12, 'markdown'), null);
+    assert.strictEqual(getEmbeddedRegionAt(markdownDocument, 16, 'markdown'), null);
+  });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'a := 1',
+    'fmt.Printf("a: %v\\n", a)',
+  ],
+  [
+    'v, err := fetch(ctx, id)',
+    'fmt.Printf("v: %v err: %v ctx: %v id: %v\\n", v, err, ctx, id)',
+  ],
+  [
+    'var count, total int = a, b',
+    'fmt.Printf("count: %v total: %v a: %v b: %v\\n", count, total, a, b)',
+  ],
+  [
+    'var names []string',
+    'fmt.Printf("names: %v\\n", names)',
+  ],
+  [
+    'lookup := map[string]User{}',
+    'fmt.Printf("lookup: %v\\n", lookup)',
+  ],
+  [
+    'x = items[i] + offset',
+    'fmt.Printf("x: %v items[i]: %v i: %v offset: %v\\n", x, items[i], i, offset)',
+  ],
+  [
+    'func Add(a, b int) int {',
+    'fmt.Printf("Add a: %v b: %v\\n", a, b)',
+  ],
+  [
+    'func (r *Repo) Find(ctx context.Context, id string, opts ...Option) (*User, error) {',
+    'fmt.Printf("Find ctx: %v id: %v opts: %v\\n", ctx, id, opts)',
+  ],
+  [
+    'handler := func(w http.ResponseWriter, req *http.Request) {',
+    'fmt.Printf("handler: %v w: %v req: %v\\n", handler, w, req)',
+  ],
+  [
+    'for _, v := range items {',
+    'fmt.Printf("for v: %v items: %v\\n", v, items)',
+  ],
+  [
+    'if err != nil {',
+    'fmt.Printf("if err: %v\\n", err)',
+  ],
+  [
+    '} else if n > max {',
+    'fmt.Printf("else if n: %v max: %v\\n", n, max)',
+  ],
+  [
+    'return user, nil',
+    'fmt.Printf("return user: %v\\n", user)',
+  ],
+  [
+    'u := &User{Name: name, Age: age}',
+    'fmt.Printf("u: %v name: %v age: %v\\n", u, name, age)',
+  ],
+  [
+    'n := fn(0x1F, 1_000, 1.5e3) // numbers',
+    'fmt.Printf("n: %v\\n", n)',
+  ],
+  [
+    'größe := maße * 2',
+    'fmt.Printf("größe: %v maße: %v\\n", größe, maße)',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Go Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('go');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
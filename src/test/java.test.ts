@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'int a = 1;',
+    'System.out.println("a: " + a);',
+  ],
+  [
+    'final String name = user.getName();',
+    'System.out.println("name: " + name);',
+  ],
+  [
+    'List<Map<String, Integer>> items = new ArrayList<>();',
+    'System.out.println("items: " + items);',
+  ],
+  [
+    '@Override public void onClick(@NonNull View v, final int position) {',
+    'System.out.println("onClick" + " v: " + v + " position: " + position);',
+  ],
+  [
+    'public static <T extends Comparable<T>> T max(T[] values, String... names) {',
+    'System.out.println("max" + " values: " + values + " names: " + names);',
+  ],
+  [
+    'String s = (String) obj;',
+    'System.out.println("s: " + s + " obj: " + obj);',
+  ],
+  [
+    'if (ready) run(a);',
+    'System.out.println("if" + " ready: " + ready + " a: " + a);',
+  ],
+  [
+    'Comparator<User> byAge = (a, b) -> a.age - b.age;',
+    'System.out.println("byAge: " + byAge);',
+  ],
+  [
+    'for (String key : keys) {',
+    'System.out.println("for" + " key: " + key + " keys: " + keys);',
+  ],
+  [
+    '} else if (a < b && c > d) {',
+    'System.out.println("else if" + " a: " + a + " b: " + b + " c: " + c + " d: " + d);',
+  ],
+  [
+    'long n = 0x1FL + 1_000L + 1.5f; // numbers',
+    'System.out.println("n: " + n);',
+  ],
+  [
+    'return count;',
+    'System.out.println("return" + " count: " + count);',
+  ],
+  [
+    'int größe = maße * 2;',
+    'System.out.println("größe: " + größe + " maße: " + maße);',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Java Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('java');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -1,3 +1,4 @@
+/* eslint-disable no-template-curly-in-string */
 import * as assert from 'assert';
 import { ParseResult } from '../parser';
 import { ensureLogId } from '../util';
@@ -232,6 +233,42 @@ const tests = [
     'fn(foo, 0x2F, 12_233_222, 0b101, 255n);',
     'console.log(\'fn\', \'foo:\', foo);',
   ],
+  [
+    'const msg = `hello ${user.name} you have ${count}`;',
+    'console.log(\'msg:\', msg, \'user.name:\', user.name, \'count:\', count);',
+  ],
+  [
+    'const url = `${base}/items/${fn(id)}?q=${`${a}`}`;',
+    'console.log(\'url:\', url, \'base:\', base, \'id:\', id, \'a:\', a);',
+  ],
+  [
+    'const valid = /^[a-z/]+$/gi.test(input);',
+    'console.log(\'valid:\', valid, \'input:\', input);',
+  ],
+  [
+    'const parts = path.split(/[\\/]/).map((p) => p.trim());',
+    'console.log(\'parts:\', parts);',
+  ],
+  [
+    'const ratio = total / count / 2;',
+    'console.log(\'ratio:\', ratio, \'total:\', total, \'count:\', count);',
+  ],
+  [
+    'return /\\d+/.test(value) ? a : b;',
+    'console.log(\'return\', \'value:\', value, \'a:\', a, \'b:\', b);',
+  ],
+  [
+    'x = (a) / b, y = c / d',
+    'console.log(\'x:\', x, \'a:\', a, \'b:\', b, \'y:\', y, \'c:\', c, \'d:\', d);',
+  ],
+  [
+    'const total = price\u00a0+ tax\u200b;',
+    'console.log(\'total:\', total, \'price:\', price, \'tax:\', tax);',
+  ],
+  [
+    'const größe = maße * 2, 名前 = ユーザー.名前;',
+    'console.log(\'größe:\', größe, \'maße:\', maße, \'名前:\', 名前, \'ユーザー.名前:\', ユーザー.名前);',
+  ],
 ];
 
 function mockedEnsureLogId(result: ParseResult) {
@@ -0,0 +1,73 @@
+/* eslint-disable no-template-curly-in-string */
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'val a = 1',
+    'println("a: ${a}")',
+  ],
+  [
+    'val msg = "Hello $name, you have ${user.count} new ${if (unread) "messages" else "nothing"}"',
+    'println("msg: ${msg} name: ${name} user.count: ${user.count} unread: ${unread}")',
+  ],
+  [
+    'fun greet(@NonNull name: String, times: Int = 1): String {',
+    'println("greet name: ${name} times: ${times}")',
+  ],
+  [
+    'private var items: MutableList<String>? = null',
+    'println("items: ${items}")',
+  ],
+  [
+    'val doubled = list.map { it * 2 }',
+    'println("doubled: ${doubled}")',
+  ],
+  [
+    'val len = text?.length ?: 0',
+    'println("len: ${len} text?.length: ${text?.length}")',
+  ],
+  [
+    'if (value is String && value.length > limit) {',
+    'println("if value: ${value} value.length: ${value.length} limit: ${limit}")',
+  ],
+  [
+    'val (a, b) = pair',
+    'println("a: ${a} b: ${b} pair: ${pair}")',
+  ],
+  [
+    'when (state) {',
+    'println("when state: ${state}")',
+  ],
+  [
+    'fun <T : Any> List<T>.firstOr(default: T): T {',
+    'println("List.firstOr default: ${default}")',
+  ],
+  [
+    'return count',
+    'println("return count: ${count}")',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Kotlin Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('kotlin');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -1,3 +1,4 @@
+/* eslint-disable no-template-curly-in-string */
 import * as assert from 'assert';
 import { getMagicItem, MagicItem } from '../magic';
 
@@ -42,6 +43,24 @@ describe('Log Rotator', () => {
     assert.strictEqual(line, null);
   });
 
+  it('keeps template literals as they are', () => {
+    let line: string | null = 'console.log(`${user.name}:`, count);';
+    line = rotateStatement(line);
+    assert.strictEqual(line, "console.info(`${user.name}:`, 'count:', count);");
+  });
+
+  it('joins log statements that span multiple lines', () => {
+    let line: string | null = "console.log(\n  'result:', result,\n  'other:', other,\n);";
+    line = rotateStatement(line);
+    assert.strictEqual(line, "console.info('result:', result, 'other:', other);");
+  });
+
+  it('skips characters it can not read', () => {
+    let line: string | null = "console.log('result:',\u200b result);";
+    line = rotateStatement(line);
+    assert.strictEqual(line, "console.info('result:', result);");
+  });
+
   it('generates item keys when needed without duplicating', () => {
     let line: string | null = 'console.log(123, foo, \'bar:\', bar);';
     line = rotateStatement(line);
@@ -56,3 +75,358 @@ describe('Log Rotator', () => {
     assert.strictEqual(line, 'console.warn(12, \'foo\', \'fn(1, 2):\', fn(1, 2), \'({a: 2, ..oo\\\'})[a]:\', ({a: 2, b: \'foo\'})[a]);');
   });
 });
+
+describe('Log Rotator (interpolated strings)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('python');
+  });
+
+  it('rotates into and out of interpolated strings', () => {
+    let line: string | null = 'print("fn", "a:", a, "b.c:", b.c)';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'logging.debug(f"fn {a=} {b.c=}")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'logging.info(f"fn {a=} {b.c=}")');
+    line = rotateStatement(line, -1);
+    line = rotateStatement(line!, -1);
+    assert.strictEqual(line, 'print("fn", "a:", a, "b.c:", b.c)');
+  });
+
+  it('rotates items with double quotes into single quoted interpolated strings', () => {
+    let line: string | null = 'print("d[\\"k\\"]:", d["k"], "a:", a)';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'logging.debug(f\'{d["k"]=} {a=}\')');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'logging.info(f\'{d["k"]=} {a=}\')');
+    line = rotateStatement(line, -1);
+    line = rotateStatement(line!, -1);
+    assert.strictEqual(line, 'print("d[\\"k\\"]:", d["k"], "a:", a)');
+  });
+
+  it('detects the format with the longest matching prefix', () => {
+    let line: string | null = 'print(f"{a=}")';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'print("a:", a)');
+  });
+});
+
+describe('Log Rotator (format strings)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('go');
+  });
+
+  it('rotates format string log statements', () => {
+    let line: string | null = 'fmt.Printf("Find ctx: %v id: %v\\n", ctx, id)';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'log.Printf("Find ctx: %v id: %v", ctx, id)');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'fmt.Fprintf(os.Stderr, "Find ctx: %v id: %v\\n", ctx, id)');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'fmt.Printf("Find ctx: %v id: %v\\n", ctx, id)');
+  });
+
+  it('rotates format string log statements without a log id', () => {
+    const line: string | null = rotateStatement('log.Printf("a: %v", a)', -1);
+    assert.strictEqual(line, 'fmt.Printf("a: %v\\n", a)');
+  });
+});
+
+describe('Log Rotator (rust)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('rust');
+  });
+
+  it('rotates between interpolated strings, plain parameters and format strings', () => {
+    let line: string | null = 'println!("name a: {a:?} b.c: {:?}", b.c);';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'dbg!("name", &a, &b.c);');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'eprintln!("name a: {:?} b.c: {:?}", a, b.c);');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'println!("name a: {a:?} b.c: {:?}", b.c);');
+  });
+
+  it('rotates expressions that are not interpolated as positional parameters', () => {
+    let line: string | null = 'println!("self.count: {:?} v[0]: {:?} y: {y:?}", self.count, v[0]);';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'dbg!(&self.count, &v[0], &y);');
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, 'println!("self.count: {:?} v[0]: {:?} y: {y:?}", self.count, v[0]);');
+  });
+});
+
+describe('Log Rotator (java)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('java');
+  });
+
+  it('rotates between concatenated strings and format strings', () => {
+    let line: string | null = 'System.out.println("onClick" + " v: " + v + " position: " + position);';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'Log.d(TAG, "onClick" + " v: " + v + " position: " + position);');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'log.debug("onClick v: {} position: {}", v, position);');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'System.out.println("onClick" + " v: " + v + " position: " + position);');
+  });
+});
+
+describe('Log Rotator (kotlin)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('kotlin');
+  });
+
+  it('rotates string templates', () => {
+    let line: string | null = 'println("greet name: ${name} user.age: ${user.age}")';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'Log.d(TAG, "greet name: ${name} user.age: ${user.age}")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'println("greet name: ${name} user.age: ${user.age}")');
+  });
+});
+
+describe('Log Rotator (type specific format specifiers)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('c');
+  });
+
+  it('keeps the format specifier of each log item', () => {
+    let line: string | null = 'printf("process foo: %p name: %s scale: %f n: %d\\n", foo, name, scale, n);';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'fprintf(stderr, "process foo: %p name: %s scale: %f n: %d\\n", foo, name, scale, n);');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'printf("process foo: %p name: %s scale: %f n: %d\\n", foo, name, scale, n);');
+  });
+});
+
+describe('Log Rotator (c++)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('cpp');
+  });
+
+  it('rotates stream log statements', () => {
+    let line: string | null = 'std::cout << "Foo::bar" << " s: " << s << " node->id: " << node->id << std::endl;';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'std::cerr << "Foo::bar" << " s: " << s << " node->id: " << node->id << std::endl;');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'std::cout << "Foo::bar" << " s: " << s << " node->id: " << node->id << std::endl;');
+  });
+});
+
+describe('Log Rotator (php)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('php');
+  });
+
+  it('rotates between omitted and array item keys', () => {
+    let line: string | null = "var_dump('foreach', $items, $user);";
+    line = rotateStatement(line);
+    assert.strictEqual(line, "error_log(print_r(['foreach', '$items' => $items, '$user' => $user], true));");
+    line = rotateStatement(line);
+    assert.strictEqual(line, "\\Log::debug('foreach', compact('items', 'user'));");
+    line = rotateStatement(line);
+    assert.strictEqual(line, "var_dump('foreach', $items, $user);");
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, "\\Log::debug('foreach', compact('items', 'user'));");
+  });
+
+  it('writes the name of the first variable as the message of compact', () => {
+    let line: string | null = 'var_dump($a, $b);';
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, "\\Log::debug('a', compact('a', 'b'));");
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'var_dump($a, $b);');
+  });
+
+  it('skips compact for items that are not variables', () => {
+    let line: string | null = "error_log(print_r(['$items' => $items, '$user->name' => $user->name], true));";
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'var_dump($items, $user->name);');
+  });
+});
+
+describe('Log Rotator (ruby)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('ruby');
+  });
+
+  it('rotates between hash and interpolated log statements', () => {
+    let line: string | null = 'p "items.each", "item": item, "user&.name": user&.name';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'puts "items.each item: #{item.inspect} user&.name: #{user&.name.inspect}"');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'Rails.logger.debug("items.each item: #{item.inspect} user&.name: #{user&.name.inspect}")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'p "items.each", "item": item, "user&.name": user&.name');
+  });
+
+  it('keeps log ids that contain the identifier prefix', () => {
+    let line: string | null = 'p "#{a} x", "a": a';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'puts "#{a} x a: #{a.inspect}"');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'Rails.logger.debug("#{a} x a: #{a.inspect}")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'p "#{a} x", "a": a');
+  });
+});
+
+describe('Log Rotator (shell)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('shellscript');
+  });
+
+  it('rotates between interpolated, format string and declare statements', () => {
+    let line: string | null = 'echo "for file: ${file} files: ${files}"';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'printf "for file=%s files=%s\\n" "${file}" "${files}" >&2');
+    line = rotateStatement(line);
+    assert.strictEqual(line, '>&2 declare -p file files');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'echo "file: ${file} files: ${files}"');
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, '>&2 declare -p file files');
+  });
+
+  it('keeps positional parameters and subscripts by skipping declare statements', () => {
+    let line: string | null = 'echo "for 1: ${1} files[@]: ${files[@]} @: ${@}"';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'printf "for 1=%s files[@]=%s @=%s\\n" "${1}" "${files[@]}" "${@}" >&2');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'echo "for 1: ${1} files[@]: ${files[@]} @: ${@}"');
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, 'printf "for 1=%s files[@]=%s @=%s\\n" "${1}" "${files[@]}" "${@}" >&2');
+  });
+});
+
+describe('Log Rotator (swift)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('swift');
+  });
+
+  it('rotates between print, debugPrint and Logger statements', () => {
+    let line: string | null = 'print("greet person: \\(person) greeting: \\(greeting)")';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'debugPrint("greet person: \\(person) greeting: \\(greeting)")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'Logger().debug("greet person: \\(person) greeting: \\(greeting)")');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'print("greet person: \\(person) greeting: \\(greeting)")');
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, 'Logger().debug("greet person: \\(person) greeting: \\(greeting)")');
+  });
+});
+
+describe('Log Rotator (dart)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('dart');
+  });
+
+  it('rotates between print, debugPrint and log statements', () => {
+    let line: string | null = "print('greet name: ${name} count: ${count}');";
+    line = rotateStatement(line);
+    assert.strictEqual(line, "debugPrint('greet name: ${name} count: ${count}');");
+    line = rotateStatement(line);
+    assert.strictEqual(line, "log('greet name: ${name} count: ${count}');");
+    line = rotateStatement(line);
+    assert.strictEqual(line, "print('greet name: ${name} count: ${count}');");
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, "log('greet name: ${name} count: ${count}');");
+  });
+});
+
+describe('Log Rotator (lua)', () => {
+  let magic: MagicItem;
+
+  function rotateStatement(input: string, direction: -1 | 1 = 1): string | null {
+    return magic.rotateLog(magic.tokenize(input), direction);
+  }
+
+  before(async () => {
+    magic = await getMagicItem('lua');
+  });
+
+  it('rotates between print, string.format and concatenated inspect statements', () => {
+    let line: string | null = 'print("Player:move", "dx:", dx, "self.speed:", self.speed)';
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'print(string.format("Player:move dx: %s self.speed: %s", tostring(dx), tostring(self.speed)))');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'print("Player:move" .. " dx: " .. inspect(dx) .. " self.speed: " .. inspect(self.speed))');
+    line = rotateStatement(line);
+    assert.strictEqual(line, 'print("Player:move", "dx:", dx, "self.speed:", self.speed)');
+    line = rotateStatement(line, -1);
+    assert.strictEqual(line, 'print("Player:move" .. " dx: " .. inspect(dx) .. " self.speed: " .. inspect(self.speed))');
+  });
+});
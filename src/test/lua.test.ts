@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'local total = price * quantity',
+    'print("total:", total, "price:", price, "quantity:", quantity)',
+  ],
+  [
+    'local a, b = unpack(values)',
+    'print("a:", a, "b:", b, "values:", values)',
+  ],
+  [
+    'function Player:move(dx, dy)',
+    'print("Player:move", "dx:", dx, "dy:", dy)',
+  ],
+  [
+    'local function clamp(value, min, max)',
+    'print("clamp", "value:", value, "min:", min, "max:", max)',
+  ],
+  [
+    'for k, v in pairs(t) do',
+    'print("for", "k:", k, "v:", v, "t:", t)',
+  ],
+  [
+    'for i = 1, #items do',
+    'print("for", "i:", i, "items:", items)',
+  ],
+  [
+    'if self.health <= 0 and not player.invulnerable then',
+    'print("if", "self.health:", self.health, "player.invulnerable:", player.invulnerable)',
+  ],
+  [
+    'elseif count > limit then',
+    'print("elseif", "count:", count, "limit:", limit)',
+  ],
+  [
+    'local player = { name = playerName, score = 0, [key] = value }',
+    'print("player:", player, "playerName:", playerName, "key:", key, "value:", value)',
+  ],
+  [
+    'love.graphics.print(message, x, y)',
+    'print("love.graphics.print", "message:", message, "x:", x, "y:", y)',
+  ],
+  [
+    'local doubled = map(values, function(v) return v * 2 end)',
+    'print("doubled:", doubled, "values:", values)',
+  ],
+  [
+    'button:onClick(function(event)',
+    'print("button:onClick", "event:", event)',
+  ],
+  [
+    'return self.x + offset -- the new position',
+    'print("return", "self.x:", self.x, "offset:", offset)',
+  ],
+  [
+    'local speed = 1.5 * dt --[[ per frame ]] + boost',
+    'print("speed:", speed, "dt:", dt, "boost:", boost)',
+  ],
+  [
+    'local label = "Score: " .. score .. "/" .. maxScore',
+    'print("label:", label, "score:", score, "maxScore:", maxScore)',
+  ],
+  [
+    'while not done do',
+    'print("while", "done:", done)',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Lua Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('lua');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
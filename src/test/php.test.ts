@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    '$total = $price * $quantity;',
+    'var_dump($total, $price, $quantity);',
+  ],
+  [
+    '$name = $user->profile->name;',
+    'var_dump($name, $user->profile->name);',
+  ],
+  [
+    '$user?->getName();',
+    'var_dump(\'$user?->getName\');',
+  ],
+  [
+    '$count = self::$instances + static::MAX;',
+    'var_dump($count, self::$instances);',
+  ],
+  [
+    'if ($a > $b) {',
+    'var_dump(\'if\', $a, $b);',
+  ],
+  [
+    'foreach ($items as $key => $value) {',
+    'var_dump(\'foreach\', $items, $key, $value);',
+  ],
+  [
+    'function calculate(int $a, ?string $b = null): string {',
+    'var_dump(\'calculate\', $a, $b);',
+  ],
+  [
+    'public function __construct(private Logger $logger, $config) {',
+    'var_dump(\'__construct\', $logger, $config);',
+  ],
+  [
+    '$full = $first . \' \' . $last; # concatenated',
+    'var_dump($full, $first, $last);',
+  ],
+  [
+    '$x = $data[\'key\'] . $data[0]; // comment',
+    'var_dump($x, $data["key"], $data[0]);',
+  ],
+  [
+    '$doubled = array_map(fn($n) => $n * $factor, $numbers);',
+    'var_dump($doubled, $numbers);',
+  ],
+  [
+    'return $this->items[$index];',
+    'var_dump(\'return\', $this->items[$index], $index);',
+  ],
+  [
+    '$result = \\App\\Helpers\\format($value, PHP_EOL);',
+    'var_dump($result, $value);',
+  ],
+  [
+    '} elseif ($status === \'done\') {',
+    'var_dump(\'elseif\', $status);',
+  ],
+  [
+    '$total += 1.5e3 + 0x1F;',
+    'var_dump($total);',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('PHP Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('php');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'a = 1',
+    'print("a:", a)',
+  ],
+  [
+    'a, b = fn(c)',
+    'print("a:", a, "b:", b, "c:", c)',
+  ],
+  [
+    'total: int = a + b',
+    'print("total:", total, "a:", a, "b:", b)',
+  ],
+  [
+    'self.total = self.total + value',
+    'print("self.total:", self.total, "value:", value)',
+  ],
+  [
+    'def f(a, b=1, *args, **kwargs):',
+    'print("f", "a:", a, "b:", b, "args:", args, "kwargs:", kwargs)',
+  ],
+  [
+    'def f(self, a: int, b: List[int] = None) -> Dict[str, int]:',
+    'print("f", "a:", a, "b:", b)',
+  ],
+  [
+    'async def fetch(url, *, timeout: float = 1.5):',
+    'print("fetch", "url:", url, "timeout:", timeout)',
+  ],
+  [
+    'if a and not b:',
+    'print("if", "a:", a, "b:", b)',
+  ],
+  [
+    'elif a is not None or b not in c:',
+    'print("elif", "a:", a, "b:", b, "c:", c)',
+  ],
+  [
+    'for k, v in d.items():',
+    'print("for", "k:", k, "v:", v)',
+  ],
+  [
+    'return a + b',
+    'print("return", "a:", a, "b:", b)',
+  ],
+  [
+    'result = fn(x, key=lambda i: i.name, reverse=flag)',
+    'print("result:", result, "x:", x, "flag:", flag)',
+  ],
+  [
+    'msg = f"hello {name}"  # greet',
+    'print("msg:", msg, "name:", name)',
+  ],
+  [
+    'doc = """it\'s a "triple" quoted string"""',
+    'print("doc:", doc)',
+  ],
+  [
+    'nums = [n * 2 for n in values if n > 0]',
+    'print("nums:", nums, "values:", values)',
+  ],
+  [
+    'total = sum(item.price for item in items) + {k: v for k, v in pairs}[key]',
+    'print("total:", total, "items:", items, "pairs:", pairs, "key:", key)',
+  ],
+  [
+    'for n in values:',
+    'print("for", "n:", n, "values:", values)',
+  ],
+  [
+    'x = fn(0x1F, 1_000, 1.5e-3, 2j)',
+    'print("x:", x)',
+  ],
+  [
+    'msg = f"{user.name!r} has {count=} items, {a != b} {x:>10}"',
+    'print("msg:", msg, "user.name:", user.name, "count:", count, "a:", a, "b:", b, "x:", x)',
+  ],
+  [
+    'msg = "not {interpolated}" + rf"{{literal}} {path}"',
+    'print("msg:", msg, "path:", path)',
+  ],
+  [
+    'total = price\u200b + tax  # 💰',
+    'print("total:", total, "price:", price, "tax:", tax)',
+  ],
+  [
+    'größe = maße * 2',
+    'print("größe:", größe, "maße:", maße)',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Python Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('python');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'total = price * quantity',
+    'p "total": total, "price": price, "quantity": quantity',
+  ],
+  [
+    'def initialize(name, age = 0)',
+    'p "initialize", "name": name, "age": age',
+  ],
+  [
+    'def self.build name, options = {}',
+    'p "self.build", "name": name, "options": options',
+  ],
+  [
+    'def update(id, force: false, **opts)',
+    'p "update", "id": id, "force": force, "opts": opts',
+  ],
+  [
+    'items.each do |item, index|',
+    'p "items.each", "item": item, "index": index',
+  ],
+  [
+    'users.map { |u| u.name.upcase }.select { |n| n.length > min_length }',
+    'p "users.map"',
+  ],
+  [
+    'orders.each { |order|',
+    'p "orders.each", "order": order',
+  ],
+  [
+    '@count += @@instances',
+    'p "@count": @count, "@@instances": @@instances',
+  ],
+  [
+    'if user&.admin? && !guest',
+    'p "if", "user&.admin": user&.admin, "guest": guest',
+  ],
+  [
+    'message = "Hello #{user.name}, you are #{age} years old"',
+    'p "message": message, "user.name": user.name, "age": age',
+  ],
+  [
+    'puts "#{user.name} signed in"',
+    'p "user.name": user.name',
+  ],
+  [
+    'result = Foo::Bar.call(value, key: other)',
+    'p "result": result, "value": value, "other": other',
+  ],
+  [
+    'status = valid ? :ok : :error',
+    'p "status": status, "valid": valid',
+  ],
+  [
+    'render json: data, status: 201',
+    'p "data": data',
+  ],
+  [
+    'elsif retries > MAX_RETRIES # too many',
+    'p "elsif", "retries": retries, "MAX_RETRIES": MAX_RETRIES',
+  ],
+  [
+    'return @cache[key] || default',
+    'p "return", "@cache[key]": @cache[key], "key": key, "default": default',
+  ],
+  [
+    'hash = { name: first_name, \'age\' => 42 }',
+    'p "hash": hash, "first_name": first_name',
+  ],
+  [
+    'x = 1_000.5 + 0xFF',
+    'p "x": x',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Ruby Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('ruby');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
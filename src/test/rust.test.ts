@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'let a = 1;',
+    'println!("a: {a:?}");',
+  ],
+  [
+    'let mut total: u32 = a + b;',
+    'println!("total: {total:?} a: {a:?} b: {b:?}");',
+  ],
+  [
+    'let items: Vec<HashMap<String, i32>> = Vec::new();',
+    'println!("items: {items:?}");',
+  ],
+  [
+    'let (a, b) = pair;',
+    'println!("a: {a:?} b: {b:?} pair: {pair:?}");',
+  ],
+  [
+    'let Point { x: px, y: py } = point;',
+    'println!("px: {px:?} py: {py:?} point: {point:?}");',
+  ],
+  [
+    'if let Some(x) = maybe {',
+    'println!("if let x: {x:?} maybe: {maybe:?}");',
+  ],
+  [
+    '} else if let Ok(v) = res {',
+    'println!("else if let v: {v:?} res: {res:?}");',
+  ],
+  [
+    'while let Some(top) = stack.pop() {',
+    'println!("while let top: {top:?}");',
+  ],
+  [
+    'match value {',
+    'println!("match value: {value:?}");',
+  ],
+  [
+    'Some(n) if n > limit => {',
+    'println!("Some n: {n:?} limit: {limit:?}");',
+  ],
+  [
+    "fn longest<'a>(x: &'a str, y: &'a str) -> &'a str {",
+    'println!("longest x: {x:?} y: {y:?}");',
+  ],
+  [
+    'fn name(&self, a: &str) -> Result<T> {',
+    'println!("name a: {a:?}");',
+  ],
+  [
+    "let c = 'x';",
+    'println!("c: {c:?}");',
+  ],
+  [
+    'let s = format!("{}-{}", first, last);',
+    'println!("s: {s:?} first: {first:?} last: {last:?}");',
+  ],
+  [
+    'let evens: Vec<_> = nums.iter().filter(|n| *n % 2 == 0).collect::<Vec<_>>();',
+    'println!("evens: {evens:?}");',
+  ],
+  [
+    'for (i, item) in list.iter().enumerate() {',
+    'println!("for i: {i:?} item: {item:?}");',
+  ],
+  [
+    'let path = r"C:\\dir"; // raw string',
+    'println!("path: {path:?}");',
+  ],
+  [
+    'let n = 0xFFu8 + 1_000i64 + 2.5f32;',
+    'println!("n: {n:?}");',
+  ],
+  [
+    'let y = self.count + v[0];',
+    'println!("y: {y:?} self.count: {:?} v[0]: {:?}", self.count, v[0]);',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Rust Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('rust');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import { getMagicItem } from '../magic';
+import { createVariableLogItems, findVariablesInScope } from '../scope';
+
+const tests = [
+  {
+    name: 'declarations, parameters and destructured names of enclosing blocks',
+    languageId: 'javascript',
+    lines: [
+      'const moduleLevel = 1;',
+      'function outer(a, { b, c = 2 }) {',
+      '  const x = 1, y = compute(a, b);',
+      '  let [p, , q] = pairs;',
+      '  this.count = x;',
+      '  total = y;',
+      '  if (a) {',
+      '    const z = p + q;',
+      '  }',
+    ],
+    lineNr: 7,
+    expected: ['moduleLevel', 'outer', 'a', 'b', 'c', 'x', 'y', 'p', 'q', 'z'],
+  },
+  {
+    name: 'no declarations of closed sibling blocks and lambdas',
+    languageId: 'javascript',
+    lines: [
+      'function outer(a) {',
+      '  if (a) {',
+      '    const hidden = 3;',
+      '  }',
+      '  const items = list.map((item) => {',
+      '    const inner = item;',
+      '    return inner;',
+      '  });',
+      '  const cfg = {',
+      '    key: 1,',
+      '  };',
+      '  return cfg;',
+    ],
+    lineNr: 11,
+    expected: ['outer', 'a', 'items', 'cfg'],
+  },
+  {
+    name: 'loop variables, caught exceptions and the variables of enclosing functions',
+    languageId: 'typescript',
+    lines: [
+      "describe('cart', () => {",
+      '  const cart: Cart = createCart();',
+      '  it(\'totals\', async (): Promise<void> => {',
+      '    for (const [key, value] of Object.entries(cart.items)) {',
+      '      try {',
+      '        await check(key);',
+      '      } catch (err) {',
+      '        for (let i = 0; i < value.length; i++) {',
+      '          const price: number = value[i];',
+    ],
+    lineNr: 8,
+    expected: ['cart', 'key', 'value', 'err', 'i', 'price'],
+  },
+  {
+    name: 'typed declarations and braces on lines of their own',
+    languageId: 'csharp',
+    lines: [
+      'public class Player',
+      '{',
+      '    private int field = 1;',
+      '    public void Run(int count, string name)',
+      '    {',
+      '        int total = 0;',
+      '        string[] parts = name.Split(sep);',
+      '        this.field = total;',
+      '        foreach (var part in parts)',
+      '        {',
+      '        }',
+      '        try',
+      '        {',
+      '        }',
+      '        catch (Exception e)',
+      '        {',
+      '            var message = e.Message;',
+    ],
+    lineNr: 16,
+    expected: ['field', 'count', 'name', 'total', 'parts', 'e', 'message'],
+  },
+  {
+    name: 'short variable declarations',
+    languageId: 'go',
+    lines: [
+      'func run(a int, b string) error {',
+      '\tx := 1',
+      '\tfor i, v := range items {',
+      '\t\tz := v',
+    ],
+    lineNr: 3,
+    expected: ['run', 'a', 'b', 'x', 'i', 'v', 'z'],
+  },
+  {
+    name: 'functions declared with a function value or a function declaration',
+    languageId: 'javascript',
+    lines: [
+      'function outer() {',
+      '  const format = (v) => {',
+      '    return v;',
+      '  };',
+      '  function helper(q) {',
+      '    return q;',
+      '  }',
+      '  const done = format(1);',
+    ],
+    lineNr: 7,
+    expected: ['outer', 'format', 'helper', 'done'],
+  },
+  {
+    name: 'module level declarations',
+    languageId: 'typescript',
+    lines: [
+      'const config = load();',
+      'export function handle(req: Request) {',
+      '  const total = count(req);',
+    ],
+    lineNr: 2,
+    expected: ['config', 'handle', 'req', 'total'],
+  },
+  {
+    name: 'names declared by assignment',
+    languageId: 'python',
+    lines: [
+      'x = 1',
+      'self.y = 2',
+      'total, count = x + 1, 2',
+      'print(total)',
+    ],
+    lineNr: 3,
+    expected: ['x', 'total', 'count'],
+  },
+];
+
+describe('Variables in scope', () => {
+  tests.forEach((test) => {
+    it(`finds ${test.name}`, async () => {
+      const magic = await getMagicItem(test.languageId);
+      const variables = findVariablesInScope(test.lines, test.lineNr, {
+        tokenize: magic.tokenize,
+        parse: magic.parse,
+        declaresOnAssignment: magic.declaresOnAssignment,
+      });
+      assert.deepStrictEqual(variables, test.expected);
+    });
+  });
+
+  it('logs the variables in a single log statement', async () => {
+    const magic = await getMagicItem('javascript');
+    const logStatement = magic.log({ tokens: [], logItems: createVariableLogItems(['a', 'b']), logId: { type: 'string', value: 'L3' } });
+    assert.strictEqual(logStatement, "console.log('L3', 'a:', a, 'b:', b);");
+  });
+});
@@ -0,0 +1,104 @@
+/* eslint-disable no-template-curly-in-string */
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+import { log } from '../logger';
+import { loggerConfig } from '../languages/shell';
+
+const tests = [
+  [
+    'NAME=value',
+    'echo "NAME: ${NAME}"',
+  ],
+  [
+    'export PATH="$HOME/bin:$PATH"',
+    'echo "PATH: ${PATH} HOME: ${HOME}"',
+  ],
+  [
+    'local dir="$(dirname "$0")" count=0',
+    'echo "dir: ${dir} 0: ${0} count: ${count}"',
+  ],
+  [
+    'for file in "${files[@]}"; do',
+    'echo "for file: ${file} files[@]: ${files[@]}"',
+  ],
+  [
+    'if [ -z "$BUILD_DIR" ]; then',
+    'echo "if BUILD_DIR: ${BUILD_DIR}"',
+  ],
+  [
+    'while read -r line; do',
+    'echo "while line: ${line}"',
+  ],
+  [
+    '(( retries++ ))',
+    'echo "retries: ${retries}"',
+  ],
+  [
+    'total=$(( total + ${sizes[$i]} ))',
+    'echo "total: ${total} sizes[$i]: ${sizes[$i]}"',
+  ],
+  [
+    'cp "$src" "${dest:-/tmp}/$name"  # copy it',
+    'echo "src: ${src} dest: ${dest} name: ${name}"',
+  ],
+  [
+    'deploy() {',
+    'echo "deploy"',
+  ],
+  [
+    'function cleanup {',
+    'echo "cleanup"',
+  ],
+  [
+    'echo "Done in $SECONDS seconds" >&2',
+    'echo "SECONDS: ${SECONDS}"',
+  ],
+  [
+    'result=$(curl -s "$URL" | jq -r \'.items[0].id\')',
+    'echo "result: ${result} URL: ${URL}"',
+  ],
+  [
+    'args+=("$@")',
+    'echo "args: ${args} @: ${@}"',
+  ],
+  [
+    'exec "$@"',
+    'echo "@: ${@}"',
+  ],
+  [
+    'case "$1" in',
+    'echo "case 1: ${1}"',
+  ],
+  [
+    'awk \'{print $2}\' "$input_file" > out.txt',
+    'echo "input_file: ${input_file}"',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Shell Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('shellscript');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+
+  it('declares only variable names', () => {
+    const parseResult = magic.parse(magic.tokenize('cp "$1" "${files[@]}" "$@" "$dest"'));
+    assert.strictEqual(log(parseResult, loggerConfig[2]), '>&2 declare -p files dest');
+  });
+});
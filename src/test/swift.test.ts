@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { ParseResult } from '../parser';
+import { ensureLogId } from '../util';
+import { getMagicItem, MagicItem } from '../magic';
+
+const tests = [
+  [
+    'let total: Int = price * quantity',
+    'print("total: \\(total) price: \\(price) quantity: \\(quantity)")',
+  ],
+  [
+    'var name: String? = user?.profile.name',
+    'print("name: \\(name) user?.profile.name: \\(user?.profile.name)")',
+  ],
+  [
+    'func greet(for person: String, _ greeting: String = "Hi") -> String {',
+    'print("greet person: \\(person) greeting: \\(greeting)")',
+  ],
+  [
+    'init(name: String, age: Int) {',
+    'print("name: \\(name) age: \\(age)")',
+  ],
+  [
+    'let result = calculate(value: amount, with: rate)',
+    'print("result: \\(result) amount: \\(amount) rate: \\(rate)")',
+  ],
+  [
+    'if let data = response.data, !data.isEmpty {',
+    'print("if data: \\(data) response.data: \\(response.data) data.isEmpty: \\(data.isEmpty)")',
+  ],
+  [
+    'guard let url = URL(string: urlString) else { return }',
+    'print("guard url: \\(url) urlString: \\(urlString)")',
+  ],
+  [
+    'guard let user = maybeUser, var count = counts[key] else {',
+    'print("guard maybeUser: \\(maybeUser) counts[key]: \\(counts[key]) key: \\(key)")',
+  ],
+  [
+    'guard let user else {',
+    'print("guard user: \\(user)")',
+  ],
+  [
+    'let doubled = numbers.map { $0 * 2 }',
+    'print("doubled: \\(doubled)")',
+  ],
+  [
+    'items.forEach { item in',
+    'print("items.forEach item: \\(item)")',
+  ],
+  [
+    '@State private var count: Int = 0',
+    'print("count: \\(count)")',
+  ],
+  [
+    'let ratio = isValid ? success : failure',
+    'print("ratio: \\(ratio) isValid: \\(isValid) success: \\(success) failure: \\(failure)")',
+  ],
+  [
+    'let scores: [String: Int] = [name: score, "b": 2]',
+    'print("scores: \\(scores) name: \\(name) score: \\(score)")',
+  ],
+  [
+    'print("Hello \\(user.name), \\(count(of: items)) items")',
+    'print("print user.name: \\(user.name) items: \\(items)")',
+  ],
+  [
+    'let cast = value as? String ?? fallback',
+    'print("cast: \\(cast) value: \\(value) fallback: \\(fallback)")',
+  ],
+  [
+    '} else if retries > maxRetries { // retry',
+    'print("else if retries: \\(retries) maxRetries: \\(maxRetries)")',
+  ],
+  [
+    'func compare<T: Equatable>(lhs: T, rhs: T) -> Bool {',
+    'print("compare lhs: \\(lhs) rhs: \\(rhs)")',
+  ],
+];
+
+function mockedEnsureLogId(result: ParseResult) {
+  return ensureLogId(result, 122, 1);
+}
+
+describe('Swift Logger', () => {
+  let magic: MagicItem;
+
+  function createLogStatement(input: string) {
+    return magic.log(mockedEnsureLogId(magic.parse(magic.tokenize(input))));
+  }
+
+  before(async () => {
+    magic = await getMagicItem('swift');
+  });
+
+  for (let i = 0; i < tests.length; i++) {
+    const t = tests[i];
+    it(t[0], () => { assert.strictEqual(createLogStatement(t[0]), t[1]); });
+  }
+});
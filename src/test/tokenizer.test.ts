@@ -0,0 +1,56 @@
+/* eslint-disable no-template-curly-in-string */
+import * as assert from 'assert';
+import { getMagicItem } from '../magic';
+import { Token } from '../tokenizer';
+
+const tests = [
+  {
+    languageId: 'javascript',
+    code: 'const total = price * 2;',
+    logged: ['0: total', '0: price'],
+  },
+  {
+    languageId: 'javascript',
+    code: 'const result = compute(\n  user.name[0],\n  `${a.b} and ${c}`,\n);',
+    logged: ['0: result', '1: user.name[0]', '2: a.b', '2: c'],
+  },
+  {
+    languageId: 'kotlin',
+    code: 'val s = "$name ${user.id}"',
+    logged: ['0: s', '0: name', '0: user.id'],
+  },
+  {
+    languageId: 'python',
+    code: 'msg = f"{user.name!r} has {count=} items" + rest',
+    logged: ['0: msg', '0: user.name', '0: count', '0: rest'],
+  },
+  {
+    languageId: 'csharp',
+    code: 'var s = $"{a.B:N2}" + @"C:\\path";',
+    logged: ['0: s', '0: a.B'],
+  },
+];
+
+function getSource(token: Token, code: string): string {
+  return code.substring(token.start!, token.end!);
+}
+
+describe('Token positions', () => {
+  tests.forEach((test) => {
+    it(`cover the source of ${JSON.stringify(test.code)}`, async () => {
+      const magic = await getMagicItem(test.languageId);
+      const tokens = magic.tokenize(test.code);
+      assert.strictEqual(tokens.map((t: Token) => getSource(t, test.code)).join(''), test.code);
+      tokens.forEach((t: Token) => assert.strictEqual(t.line, test.code.substring(0, t.start).split('\n').length - 1));
+    });
+
+    it(`point to the logged items of ${JSON.stringify(test.code)}`, async () => {
+      const magic = await getMagicItem(test.languageId);
+      const parseResult = magic.parse(magic.tokenize(test.code));
+      const logged = parseResult.logItems.map((logItem: Token[]) => logItem
+        .map((t: Token) => `${t.line}: ${getSource(t, test.code)}`)
+        .join(' '));
+      assert.deepStrictEqual(logged, test.logged);
+    });
+  });
+});
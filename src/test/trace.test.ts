@@ -0,0 +1,228 @@
+import * as assert from 'assert';
+import { createLogger, LogFormat } from '../logger';
+import { getMagicItem } from '../magic';
+import {
+  findTracedLines, findTraceStatements, hasTraceTag, tagTraceStatement, TraceStatement,
+} from '../trace';
+
+const tests = [
+  {
+    name: 'javascript functions, methods and lambdas',
+    languageId: 'javascript',
+    code: [
+      'class Cart {',
+      '  total(rate = 1) {',
+      '    if (!this.items.length) {',
+      '      return 0;',
+      '    }',
+      '    const sum = this.items.reduce((acc, item) => {',
+      '      return acc + item.price;',
+      '    }, 0);',
+      '    return sum * rate;',
+      '  }',
+      '}',
+      'const load = async (url, { retries }) => {',
+      '  for (let i = 0; i < retries; i++) {',
+      '    if (ok) return true;',
+      '  }',
+      '};',
+    ],
+    expected: [
+      'class Cart {',
+      '  total(rate = 1) {',
+      "    console.log('enter total', 'rate:', rate); // logmagic:trace",
+      '    if (!this.items.length) {',
+      "      console.log('exit total'); // logmagic:trace",
+      '      return 0;',
+      '    }',
+      '    const sum = this.items.reduce((acc, item) => {',
+      '      return acc + item.price;',
+      '    }, 0);',
+      "    console.log('exit total'); // logmagic:trace",
+      '    return sum * rate;',
+      '  }',
+      '}',
+      'const load = async (url, { retries }) => {',
+      "  console.log('enter load', 'url:', url, 'retries:', retries); // logmagic:trace",
+      '  for (let i = 0; i < retries; i++) {',
+      '    if (ok) return true;',
+      '  }',
+      "  console.log('exit load'); // logmagic:trace",
+      '};',
+    ],
+  },
+  {
+    name: 'typescript functions with types',
+    languageId: 'typescript',
+    code: [
+      'interface Options {',
+      '  retries: number;',
+      '}',
+      'export async function fetch<T>(id: string, opts?: Options): Promise<T | undefined> {',
+      '  switch (id) {',
+      "    case '':",
+      '      return undefined;',
+      '  }',
+      '}',
+    ],
+    expected: [
+      'interface Options {',
+      '  retries: number;',
+      '}',
+      'export async function fetch<T>(id: string, opts?: Options): Promise<T | undefined> {',
+      "  console.log('enter fetch', 'id:', id, 'opts:', opts); // logmagic:trace",
+      '  switch (id) {',
+      "    case '':",
+      "      console.log('exit fetch'); // logmagic:trace",
+      '      return undefined;',
+      '  }',
+      "  console.log('exit fetch'); // logmagic:trace",
+      '}',
+    ],
+  },
+  {
+    name: 'c# methods and constructors with braces on lines of their own',
+    languageId: 'csharp',
+    code: [
+      'public class Player : MonoBehaviour',
+      '{',
+      '  public int Health { get; set; }',
+      '  public Player(int health) : base()',
+      '  {',
+      '    Health = health;',
+      '  }',
+      '  private bool TakeDamage(int amount)',
+      '  {',
+      '    foreach (var shield in shields)',
+      '    {',
+      '    }',
+      '    return amount > Health;',
+      '  }',
+      '}',
+    ],
+    expected: [
+      'public class Player : MonoBehaviour',
+      '{',
+      '  public int Health { get; set; }',
+      '  public Player(int health) : base()',
+      '  {',
+      '    Console.WriteLine("enter Player" + " health: " + health); // logmagic:trace',
+      '    Health = health;',
+      '    Console.WriteLine("exit Player"); // logmagic:trace',
+      '  }',
+      '  private bool TakeDamage(int amount)',
+      '  {',
+      '    Console.WriteLine("enter TakeDamage" + " amount: " + amount); // logmagic:trace',
+      '    foreach (var shield in shields)',
+      '    {',
+      '    }',
+      '    Console.WriteLine("exit TakeDamage"); // logmagic:trace',
+      '    return amount > Health;',
+      '  }',
+      '}',
+    ],
+  },
+  {
+    name: 'no functions that are already traced or have their body on one line',
+    languageId: 'javascript',
+    code: [
+      'function a(b) {',
+      "  console.log('enter a', 'b:', b); // logmagic:trace",
+      '}',
+      'function c(d) { return d; }',
+    ],
+    expected: [
+      'function a(b) {',
+      "  console.log('enter a', 'b:', b); // logmagic:trace",
+      '}',
+      'function c(d) { return d; }',
+    ],
+  },
+];
+
+/**
+ * Write the trace statements to the lines of code like the extension does, indenting with two spaces.
+ */
+function writeTraceStatements(lines: string[], statements: TraceStatement[], log: (statement: TraceStatement) => string): string[] {
+  const written = lines.map((line: string) => [line]);
+  statements.forEach((statement: TraceStatement) => {
+    const indent = lines[statement.indentLine].match(/^\s*/)![0] + (statement.indentInside ? '  ' : '');
+    if (statement.direction === 1) written[statement.line].push(indent + log(statement));
+    else written[statement.line].unshift(indent + log(statement));
+  });
+  return ([] as string[]).concat(...written);
+}
+
+describe('Tracing', () => {
+  tests.forEach((test) => {
+    it(`traces ${test.name}`, async () => {
+      const magic = await getMagicItem(test.languageId);
+      const statements = findTraceStatements(test.code, 0, test.code.length - 1, {
+        tokenize: magic.tokenize,
+        parse: magic.parse,
+        logIdKeywords: magic.logIdKeywords,
+        isTraced: hasTraceTag,
+      });
+      const traced = writeTraceStatements(test.code, statements, (statement: TraceStatement) => {
+        return tagTraceStatement(magic.log(statement.parseResult), magic.lineComment);
+      });
+      assert.deepStrictEqual(traced, test.expected);
+    });
+  });
+
+  it('traces only the functions that start in the given lines', async () => {
+    const magic = await getMagicItem('javascript');
+    const code = ['function a(b) {', '}', 'function c(d) {', '}'];
+    const statements = findTraceStatements(code, 2, 3, {
+      tokenize: magic.tokenize,
+      parse: magic.parse,
+      logIdKeywords: magic.logIdKeywords,
+    });
+    assert.deepStrictEqual(statements.map((statement: TraceStatement) => statement.line), [2, 3]);
+  });
+
+  it('traces every function of a large file', async () => {
+    const magic = await getMagicItem('javascript');
+    const code: string[] = [];
+    for (let i = 0; i < 400; i++) code.push(`function f${i}(a, b) {`, '  const c = a + b;', '  return c;', '}');
+    const statements = findTraceStatements(code, 0, code.length - 1, {
+      tokenize: magic.tokenize,
+      parse: magic.parse,
+      logIdKeywords: magic.logIdKeywords,
+    });
+    assert.strictEqual(statements.length, 800);
+    assert.strictEqual(statements[statements.length - 1].line, code.length - 2);
+  });
+
+  it('finds the trace statements written with a custom log format', async () => {
+    const magic = await getMagicItem('javascript');
+    const format: LogFormat = {
+      logPrefix: 'logger.debug(',
+      parameterSeparator: ', ',
+      identifierPrefix: '',
+      identifierSuffix: '',
+      logSuffix: ');',
+      quoteCharacter: "'",
+      insertSpaces: false,
+    };
+    const log = createLogger(format);
+    const code = ['function a(b) {', '  return b;', '}', "console.log('a'); // logmagic:trace"];
+    const statements = findTraceStatements(code, 0, 2, {
+      tokenize: magic.tokenize,
+      parse: magic.parse,
+      logIdKeywords: magic.logIdKeywords,
+    });
+    const traced = writeTraceStatements(code, statements, (statement: TraceStatement) => {
+      return tagTraceStatement(log(statement.parseResult), magic.lineComment);
+    });
+    assert.strictEqual(traced[1], "  logger.debug('enter a', 'b:', b); // logmagic:trace");
+    assert.strictEqual(magic.isLogStatement(traced[1]), false);
+    assert.deepStrictEqual(findTracedLines(traced, 0, 4), [1, 2]);
+  });
+
+  it('recognizes the tagged trace statements', () => {
+    assert.strictEqual(hasTraceTag("  console.log('enter a'); // logmagic:trace  "), true);
+    assert.strictEqual(hasTraceTag("  console.log('enter a'); // logmagic:trace later"), false);
+    assert.strictEqual(hasTraceTag("  console.log('a:', a);"), false);
+  });
+});
@@ -1,3 +1,4 @@
+/* eslint-disable no-template-curly-in-string */
 import * as assert from 'assert';
 import { ParseResult } from '../parser';
 import { ensureLogId } from '../util';
@@ -109,6 +110,18 @@ const tests = [
     'function foo({ a, b }: Type) {',
     'console.log(\'foo\', \'a:\', a, \'b:\', b);',
   ],
+  [
+    'const msg: string = `${user.name}: ${items.length > 0 ? items[0] : other}`;',
+    'console.log(\'msg:\', msg, \'user.name:\', user.name, \'items.length:\', items.length, \'items[0]:\', items[0], \'other:\', other);',
+  ],
+  [
+    'const routes = [\'home\', \'about\'] as const;',
+    'console.log(\'routes:\', routes);',
+  ],
+  [
+    'const config = { mode: \'dark\' } as const satisfies Config;',
+    'console.log(\'config:\', config);',
+  ],
 ];
 
 function mockedEnsureLogId(result: ParseResult) {
@@ -0,0 +1,391 @@
+import * as assert from 'assert';
+import { getMagicItem, MagicItem } from '../magic';
+import {
+  ensureLogId, findCodeBlockEnd, findFunctionHeader, findFunctionReturns, getStatementRange, isClosingCodeBlock, isOpeningCodeBlock,
+  isPureExpression, keepLogItemAt, parseExpressions,
+} from '../util';
+
+const tests = [
+  {
+    name: 'a single line statement',
+    lines: ['const a = 1;', 'const b = 2;'],
+    lineNr: 1,
+    expected: { start: 1, end: 1 },
+  },
+  {
+    name: 'a function call with its arguments on separate lines from the first line',
+    lines: ['const result = compute(', '  alpha,', '  beta,', ');', 'next();'],
+    lineNr: 0,
+    expected: { start: 0, end: 3 },
+  },
+  {
+    name: 'a function call with its arguments on separate lines from an argument',
+    lines: ['const result = compute(', '  alpha,', '  beta,', ');', 'next();'],
+    lineNr: 2,
+    expected: { start: 0, end: 3 },
+  },
+  {
+    name: 'a function call with its arguments on separate lines from the closing line',
+    lines: ['const result = compute(', '  alpha,', '  [beta, gamma],', ');'],
+    lineNr: 3,
+    expected: { start: 0, end: 3 },
+  },
+  {
+    name: 'a function signature with its parameters on separate lines',
+    lines: ['function greet(', '  name: string,', '  count: number,', ') {', '  return name;', '}'],
+    lineNr: 1,
+    expected: { start: 0, end: 3 },
+  },
+  {
+    name: 'a line inside a code block that is opened in a function call',
+    lines: ["describe('greet', () => {", '  const a = greet(name);', '  const b = greet(', '    a,', '  );', '});'],
+    lineNr: 1,
+    expected: { start: 1, end: 1 },
+  },
+  {
+    name: 'a statement following a multi-line statement inside a code block',
+    lines: ["describe('greet', () => {", '  const b = greet(', '    a,', '  );', '  const c = b;', '});'],
+    lineNr: 4,
+    expected: { start: 4, end: 4 },
+  },
+  {
+    name: 'a statement with brackets inside strings',
+    lines: ["const a = format('(%s',", '  b);'],
+    lineNr: 1,
+    expected: { start: 0, end: 1 },
+  },
+  {
+    name: 'a function signature with lifetimes',
+    lines: ["fn longest<'a>(x: &'a str,", "  y: &'a str) -> &'a str {", '  x', '}'],
+    lineNr: 1,
+    expected: { start: 0, end: 1 },
+  },
+  {
+    name: 'a function signature with a list of lifetimes',
+    lines: ["fn pick<'a, 'b>(", "  x: &'a str,", "  y: &'b str,", ") -> &'a str {"],
+    lineNr: 2,
+    expected: { start: 0, end: 3 },
+  },
+  {
+    name: 'a statement that is not closed yet',
+    lines: ['const result = compute(', '  alpha,', '  beta,'],
+    lineNr: 1,
+    expected: { start: 0, end: 1 },
+  },
+];
+
+describe('getStatementRange', () => {
+  tests.forEach((test) => {
+    it(`finds ${test.name}`, () => {
+      assert.deepStrictEqual(getStatementRange(test.lines, test.lineNr), test.expected);
+    });
+  });
+});
+
+const expressionTests = [
+  {
+    expressions: ['items.length > 0'],
+    expected: "console.log('items.length > 0:', items.length > 0);",
+  },
+  {
+    expressions: ['user.profile.address?.city'],
+    expected: "console.log('user.pro..ss?.city:', user.profile.address?.city);",
+  },
+  {
+    expressions: ['user.name', ' items[0] '],
+    expected: "console.log('user.name:', user.name, 'items[0]:', items[0]);",
+  },
+  {
+    expressions: ['fn(\n  a, // first\n  b,\n)', '  '],
+    expected: "console.log('fn(a, b):', fn(a, b));",
+  },
+];
+
+describe('parseExpressions', () => {
+  let magic: MagicItem;
+
+  before(async () => {
+    magic = await getMagicItem('javascript');
+  });
+
+  expressionTests.forEach((test) => {
+    it(`logs ${JSON.stringify(test.expressions)} as is`, () => {
+      const parseResult = parseExpressions(test.expressions.map((expression: string) => magic.tokenize(expression)));
+      assert.strictEqual(magic.log(parseResult), test.expected);
+    });
+  });
+});
+
+const caretTests = [
+  {
+    code: 'const total = user.items[0].price * count;',
+    caret: 20,
+    expected: "console.log('total', 'user.items[0].price:', user.items[0].price);",
+  },
+  {
+    code: 'const total = user.items[0].price * count;',
+    caret: 8,
+    expected: "console.log('total:', total);",
+  },
+  {
+    code: 'const total = user.items[0].price * count;',
+    caret: 41,
+    expected: "console.log('total', 'count:', count);",
+  },
+  {
+    code: 'if (isValid(user) && count > 0) {',
+    caret: 14,
+    expected: "console.log('if', 'user:', user);",
+  },
+  {
+    code: 'const total = user.items[0].price * count;',
+    caret: 34,
+    expected: "console.log('total');",
+  },
+  {
+    code: 'const total = compute(\n  alpha,\n  beta,\n);',
+    line: 2,
+    caret: 4,
+    expected: "console.log('total', 'beta:', beta);",
+  },
+];
+
+describe('keepLogItemAt', () => {
+  let magic: MagicItem;
+
+  before(async () => {
+    magic = await getMagicItem('javascript');
+  });
+
+  caretTests.forEach((test) => {
+    it(`logs the item at ${test.caret} of ${JSON.stringify(test.code)}`, () => {
+      const line = test.code.split('\n')[test.line || 0];
+      const lineLogItems = magic.parse(magic.tokenize(line)).logItems;
+      const parseResult = keepLogItemAt(magic.parse(magic.tokenize(test.code)), lineLogItems, test.caret);
+      assert.strictEqual(magic.log(ensureLogId(parseResult, 0, -1)), test.expected);
+    });
+  });
+});
+
+const functionHeaderTests = [
+  {
+    name: 'a function with nested code blocks',
+    lines: [
+      'function total(items, rate = 1) {', '  let sum = 0;', '  for (const item of items) {', '    if (item) {',
+      '      sum += item;', '    }', '  }', '  return sum;', '}',
+    ],
+    lineNr: 7,
+    expected: { start: 0, end: 0 },
+    logged: "console.log('total', 'items:', items, 'rate:', rate);",
+  },
+  {
+    name: 'a function from inside a nested control flow block',
+    lines: [
+      'function total(items, rate = 1) {', '  for (const item of items) {', '    if (item) {', '      sum += item;', '    }', '  }', '}',
+    ],
+    lineNr: 3,
+    expected: { start: 0, end: 0 },
+    logged: "console.log('total', 'items:', items, 'rate:', rate);",
+  },
+  {
+    name: 'a function signature with its parameters on separate lines',
+    lines: ['export async function greet(', '  name: string,', '  count?: number,', '): Promise<void> {', '  return name;', '}'],
+    lineNr: 4,
+    expected: { start: 0, end: 3 },
+    logged: "console.log('greet', 'name:', name, 'count:', count);",
+  },
+  {
+    name: 'a lambda passed as an argument',
+    lines: ["describe('greet', () => {", '  items.forEach((item, i) => {', "    const a = '{';", '  });', '});'],
+    lineNr: 2,
+    expected: { start: 1, end: 1 },
+    logged: "console.log('items.forEach', 'item:', item, 'i:', i);",
+  },
+  {
+    name: 'a method with the opening brace on a line of its own',
+    lines: ['class Foo', '{', '    public void Bar(int count, string name)', '    {', '        var a = 1;', '    }', '}'],
+    lineNr: 4,
+    expected: { start: 2, end: 3 },
+    logged: "console.log('Bar', 'count:', count, 'name:', name);",
+  },
+  {
+    name: 'a method after a closed object literal',
+    lines: [
+      'class Foo {', '  bar(a: number): string {', '    const b = { c: a };', '    if (b) {', '    }', '    return b;', '  }', '}',
+    ],
+    lineNr: 5,
+    expected: { start: 1, end: 1 },
+    logged: "console.log('bar', 'a:', a);",
+  },
+  {
+    name: 'a function signature with lifetimes',
+    languageId: 'rust',
+    lines: ["fn longest<'a>(x: &'a str, y: &'a str) -> &'a str {", '  let n = (x.len());', '  x', '}'],
+    lineNr: 2,
+    expected: { start: 0, end: 0 },
+    logged: 'println!("longest x: {x:?} y: {y:?}");',
+  },
+  {
+    name: 'no function around a line in a class body',
+    lines: ['class Foo {', '  a = 1;', '}'],
+    lineNr: 1,
+    expected: null,
+    logged: null,
+  },
+];
+
+describe('findFunctionHeader', () => {
+  let magic: MagicItem;
+
+  before(async () => {
+    magic = await getMagicItem('typescript');
+  });
+
+  functionHeaderTests.forEach((test) => {
+    it(`finds ${test.name}`, async () => {
+      const range = findFunctionHeader(test.lines, test.lineNr);
+      assert.deepStrictEqual(range, test.expected);
+      if (!range) return;
+      const language = test.languageId ? await getMagicItem(test.languageId) : magic;
+      const code = test.lines.slice(range.start, range.end + 1).map((line: string) => line.trim()).join('\n');
+      assert.strictEqual(language.log(ensureLogId(language.parse(language.tokenize(code)), range.end, 1)), test.logged);
+    });
+  });
+});
+
+const functionReturnTests = [
+  {
+    name: 'the return statements of nested code blocks',
+    lines: [
+      'function total(items) {', '  if (!items) {', '    return;', '  }', '  for (const item of items) {', '    if (item.free) return 0;',
+      '  }', '  return items.length * rate;', '}', 'function other() {', '  return 1;', '}',
+    ],
+    headerEndLine: 0,
+    expected: ['2: return', '5: return 0', '7: return items.length * rate'],
+  },
+  {
+    name: 'no return statements of nested functions and lambdas',
+    lines: [
+      'const total = (items) => {', '  const sum = items.reduce((acc, item) => {', '    return acc + item;', '  }, 0);',
+      '  function half(x) {', '    return x / 2;', '  }', '  return half(sum);', '};',
+    ],
+    headerEndLine: 0,
+    expected: ['7: return half(sum)'],
+  },
+  {
+    name: 'a return statement with a lambda',
+    lines: ['function sorter(key) {', '  return (a, b) => {', '    return a[key] - b[key];', '  };', '}'],
+    headerEndLine: 0,
+    expected: ['1: return (a, b) => {\n    return a[key] - b[key];\n  }'],
+  },
+  {
+    name: 'return statements without semicolons and with continued lines',
+    lines: ['function total(a, b) {', '  if (a) {', '    return a +', '      b', '  }', '  return b', '}'],
+    headerEndLine: 0,
+    expected: ['2: return a +\n      b', '5: return b'],
+  },
+  {
+    name: 'the return statements of a function with a multi-line header',
+    lines: ['function total(', '  { a, b },', ') {', '  return { sum: a + b };', '}'],
+    headerEndLine: 2,
+    expected: ['3: return { sum: a + b }'],
+  },
+];
+
+describe('findFunctionReturns', () => {
+  let magic: MagicItem;
+
+  before(async () => {
+    magic = await getMagicItem('javascript');
+  });
+
+  functionReturnTests.forEach((test) => {
+    it(`finds ${test.name}`, () => {
+      const code = test.lines.join('\n');
+      const returns = findFunctionReturns(magic.tokenize(code), test.headerEndLine);
+      const sources = returns.map((tokens) => `${tokens[0].line}: ${code.substring(tokens[0].start!, tokens[tokens.length - 1].end!)}`);
+      assert.deepStrictEqual(sources, test.expected);
+    });
+  });
+});
+
+const codeBlockEndTests = [
+  {
+    name: 'a function body with nested code blocks',
+    lines: [
+      'function total(items) {', '  if (!items) {', '    return;', '  }', "  const a = '}';", '  return a;', '}', 'function b() {', '}',
+    ],
+    lineNr: 0,
+    expected: 6,
+  },
+  {
+    name: 'a lambda body opened after a closed object literal',
+    lines: ['run({ a: 1 }, () => {', '  return { b: 2 };', '});', 'done();'],
+    lineNr: 0,
+    expected: 2,
+  },
+  {
+    name: 'a code block that does not close at the last line',
+    lines: ['function total(items) {', '  return items;'],
+    lineNr: 0,
+    expected: 1,
+  },
+];
+
+describe('findCodeBlockEnd', () => {
+  codeBlockEndTests.forEach((test) => {
+    it(`finds the end of ${test.name}`, () => {
+      assert.strictEqual(findCodeBlockEnd(test.lines, test.lineNr), test.expected);
+    });
+  });
+});
+
+const codeBlockTests = [
+  { languageId: 'ruby', line: 'items.each do |item|', expected: [true, false] },
+  { languageId: 'ruby', line: 'def total(items, rate = 1)', expected: [true, false] },
+  { languageId: 'ruby', line: 'def total(items) = items.sum', expected: [false, false] },
+  { languageId: 'ruby', line: 'end', expected: [false, true] },
+  { languageId: 'ruby', line: 'end.compact', expected: [false, false] },
+  { languageId: 'lua', line: 'local function total(items)', expected: [true, false] },
+  { languageId: 'lua', line: 'if count > 0 then', expected: [true, false] },
+  { languageId: 'lua', line: 'until done', expected: [false, true] },
+  { languageId: 'c', line: '} else', expected: [false, true] },
+  { languageId: 'c', line: 'else', expected: [false, false] },
+  { languageId: 'javascript', line: 'const end = function (a) { return a; }', expected: [false, false] },
+];
+
+describe('isOpeningCodeBlock and isClosingCodeBlock', () => {
+  codeBlockTests.forEach((test) => {
+    it(`detect the code blocks of ${test.languageId} in ${JSON.stringify(test.line)}`, async () => {
+      const { codeBlockPatterns } = await getMagicItem(test.languageId);
+      const detected = [isOpeningCodeBlock(test.line, codeBlockPatterns.opening), isClosingCodeBlock(test.line, codeBlockPatterns.closing)];
+      assert.deepStrictEqual(detected, test.expected);
+    });
+  });
+});
+
+const pureExpressionTests = [
+  { code: 'a.b[i] + 1', expected: true },
+  { code: 'count > 0 && !done', expected: true },
+  { code: '`${a} and ${b}`', expected: false }, // eslint-disable-line no-template-curly-in-string
+  { code: 'compute(a)', expected: false },
+  { code: 'i++', expected: false },
+  { code: 'a = b', expected: false },
+  { code: 'new Foo()', expected: false },
+  { code: 'await load', expected: false },
+  { code: '(x) => x', expected: false },
+];
+
+describe('isPureExpression', () => {
+  let magic: MagicItem;
+
+  before(async () => {
+    magic = await getMagicItem('javascript');
+  });
+
+  pureExpressionTests.forEach((test) => {
+    it(`is ${test.expected} for ${JSON.stringify(test.code)}`, () => {
+      assert.strictEqual(isPureExpression(magic.tokenize(test.code)), test.expected);
+    });
+  });
+});
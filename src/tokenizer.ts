@@ -6,6 +6,8 @@ export const TOKEN_PUNCTUATION = 'punctuation';
 export const TOKEN_OPERATOR = 'operator';
 export const TOKEN_COMMENT = 'comment';
 export const TOKEN_WHITESPACE = 'whitespace';
+export const TOKEN_REGEX = 'regex';
+export const TOKEN_UNKNOWN = 'unknown';
 
 export type TokenType = typeof TOKEN_NUMBER
     | typeof TOKEN_STRING
@@ -14,28 +16,94 @@ export type TokenType = typeof TOKEN_NUMBER
     | typeof TOKEN_PUNCTUATION
     | typeof TOKEN_OPERATOR
     | typeof TOKEN_COMMENT
-    | typeof TOKEN_WHITESPACE;
+    | typeof TOKEN_WHITESPACE
+    | typeof TOKEN_REGEX
+    | typeof TOKEN_UNKNOWN;
 
 /**
  * A Token represents an individual piece of code, like a string, number, punctuation character, variable (identifier), etc...
+ * Template string tokens also list the tokens of each expression embedded in them (`"a: $a, b: ${b.c}"`) and
+ * the delimiter they were written with, so that they are serialized back as template strings.
+ * Verbatim and raw strings (`@"C:\path"`) keep their value as it was written, escape sequences included.
+ * Characters that the tokenizer can not read (eg. characters that are not part of the language syntax) are unknown tokens.
+ * Parse steps can attach a type hint to a token (eg. 'int' or 'char*') when the type is known from a declaration.
+ * Tokens read by the tokenizer know where they are in the input: start and end are the offsets of their first character
+ * and of the character after them, and line is the (zero based) line they start on. Parse steps that combine tokens
+ * extend the first token to the end of the last one.
  */
 export type Token = {
     type: TokenType;
   value: string | number;
+  expressions?: Token[][];
+  quoteCharacter?: string;
+  verbatim?: boolean;
+  typeHint?: string;
+  start?: number;
+  end?: number;
+  line?: number;
 };
 
+/**
+ * How quotation marks are escaped in a string: with a backslash (`"a \"b\""`), by doubling them (c# verbatim strings
+ * `@"a ""b"""`) or not at all (c# raw strings `"""a "b"""`).
+ */
+type EscapeStyle = 'backslash' | 'doubled' | 'none';
+
+/**
+ * A class of characters: a string listing the characters, a regular expression (without the global flag) that matches
+ * a single character, like the unicode property escape `/\p{ID_Start}/u`, or a predicate function.
+ */
+export type CharacterClass = string | RegExp | ((char: string) => boolean);
+
 /**
  * The syntax configuration that can be specified for each language.
+ *
+ * IDENTIFIER_START and IDENTIFIER are the character classes of the first and the following characters of identifiers.
+ *
+ * SYMBOL_PREFIX is optional and lists characters that form a single keyword token together with the identifier following them,
+ * like rust lifetimes ('a) or ruby symbols (:foo). If the character is also a string delimiter and the identifier is followed by
+ * the same delimiter, it is read as a string instead (rust char literals like 'a').
+ *
+ * SINGLE_LINE_COMMENT can be a list of comment delimiters for languages that have more than one (php '//' and '#').
+ *
+ * VERBATIM_STRING_PREFIX lists the prefixes that turn a string into a verbatim string in which backslashes do not escape
+ * anything and quotation marks are escaped by doubling them (c# `@"C:\path ""quoted"""`).
+ * RAW_STRING_DELIM lists multi character string delimiters of strings that can not contain escape sequences at all (c# `"""`).
+ *
+ * REGEX_DELIM is optional and enables reading regular expression literals (javascript `/a[/]b/g`) as single tokens.
+ * The delimiter only starts a regular expression where a value is expected, ie. at the start of the input and after operators,
+ * opening brackets, commas and the keywords listed in REGEX_PRECEDING_KEYWORDS (like `return`).
+ *
+ * TEMPLATE_STRING_DELIM, TEMPLATE_EXPRESSION_START, TEMPLATE_EXPRESSION_END and TEMPLATE_IDENTIFIER_PREFIX are optional and
+ * enable reading expressions embedded in strings, like kotlin string templates ("$a ${b.c}") or swift interpolation ("\(a)").
+ * TEMPLATE_STRING_DELIM lists the string delimiters whose strings can contain templates.
+ * TEMPLATE_STRING_PREFIX lists the (case insensitive) prefixes that turn any string into a template string, like the `$` of
+ * c# interpolated strings ($"a: {a}") or the `f` of python f-strings. A single character TEMPLATE_EXPRESSION_START that is
+ * doubled (`{{`) is a literal character in the string.
+ * TEMPLATE_FORMAT_SPEC_START lists the characters that end an expression and start its format specification, like
+ * the `:` of `{a:N2}` or the `!` and `=` of `{a!r}` and `{a=}`. They are only used outside of brackets and comparison operators.
  */
 export type TokenizerConfig = {
   PUNCTUATION: string;
-  IDENTIFIER_START: string;
-    IDENTIFIER: string;
+  IDENTIFIER_START: CharacterClass;
+    IDENTIFIER: CharacterClass;
     OPERATOR: string;
     STRING_DELIM: string;
-    SINGLE_LINE_COMMENT: string;
-    MULTI_LINE_COMMENT_START: string;
-    MULTI_LINE_COMMENT_END: string;
+    MULTI_CHAR_STRING_DELIM?: string[];
+    VERBATIM_STRING_PREFIX?: string[];
+    RAW_STRING_DELIM?: string[];
+    REGEX_DELIM?: string;
+    REGEX_PRECEDING_KEYWORDS?: string[];
+    SYMBOL_PREFIX?: string;
+    TEMPLATE_STRING_DELIM?: string;
+    TEMPLATE_EXPRESSION_START?: string;
+    TEMPLATE_EXPRESSION_END?: string;
+    TEMPLATE_IDENTIFIER_PREFIX?: string;
+    TEMPLATE_STRING_PREFIX?: string[];
+    TEMPLATE_FORMAT_SPEC_START?: string;
+    SINGLE_LINE_COMMENT: string | string[];
+    MULTI_LINE_COMMENT_START?: string;
+    MULTI_LINE_COMMENT_END?: string;
     KEYWORD: string[];
 };
 
@@ -44,6 +112,48 @@ export type TokenizerConfig = {
  */
 export type Tokenizer = (input: string) => Token[];
 
+/**
+ * Create a function that tests whether a character belongs to the given character class.
+ *
+ * @param characterClass The character class
+ * @returns The test function. It returns false for an empty or undefined character (past the end of the input).
+ */
+function createCharacterTest(characterClass: CharacterClass): (char: string) => boolean {
+  if (typeof characterClass === 'function') return (char: string) => !!char && characterClass(char);
+  if (characterClass instanceof RegExp) return (char: string) => !!char && characterClass.test(char);
+  return (char: string) => !!char && characterClass.includes(char);
+}
+
+/**
+ * Return the (zero based) number of the line that the given offset of the input is on.
+ *
+ * @param input The input string
+ * @param offset The offset in the input
+ * @returns The line number
+ */
+function getLineAt(input: string, offset: number): number {
+  return input.substring(0, offset).split('\n').length - 1;
+}
+
+/**
+ * Move the positions of tokens that were read from a part of a larger input, like the expressions of template strings,
+ * so that they point to the larger input.
+ *
+ * @param tokens The tokens to move. They are modified in place.
+ * @param offset The offset of the part in the larger input
+ * @param lineOffset The line of the part in the larger input
+ * @returns The tokens
+ */
+function moveTokens(tokens: Token[], offset: number, lineOffset: number): Token[] {
+  tokens.forEach((t: Token) => {
+    t.start! += offset;
+    t.end! += offset;
+    t.line! += lineOffset;
+    t.expressions?.forEach((expression: Token[]) => moveTokens(expression, offset, lineOffset));
+  });
+  return tokens;
+}
+
 /**
  * Create and return a tokenizer function according to the given syntax configuration.
  *
@@ -55,6 +165,9 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
 
   // Conditionals
 
+  const isIdentifierStart = createCharacterTest(config.IDENTIFIER_START);
+  const isIdentifier = createCharacterTest(config.IDENTIFIER);
+
   function isWhitespace(char: string) {
     return /\s/.test(char);
   }
@@ -67,12 +180,13 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
     return config.PUNCTUATION.includes(char);
   }
 
-  function isSingleLineComment(input: string) {
-    return input.startsWith(config.SINGLE_LINE_COMMENT, i);
+  function findSingleLineComment(input: string): string | undefined {
+    const delims = typeof config.SINGLE_LINE_COMMENT === 'string' ? [config.SINGLE_LINE_COMMENT] : config.SINGLE_LINE_COMMENT;
+    return delims.find((delim: string) => input.startsWith(delim, i));
   }
 
   function isMultiLineComment(input: string) {
-    return input.startsWith(config.MULTI_LINE_COMMENT_START, i);
+    return !!config.MULTI_LINE_COMMENT_START && input.startsWith(config.MULTI_LINE_COMMENT_START, i);
   }
 
   function isOperator(char: string) {
@@ -83,18 +197,73 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
     return config.STRING_DELIM.includes(char);
   }
 
-  function isIdentifierStart(char: string) {
-    return config.IDENTIFIER_START.includes(char);
+  function findMultiCharStringDelim(input: string): string | undefined {
+    const delims = [...config.RAW_STRING_DELIM || [], ...config.MULTI_CHAR_STRING_DELIM || []];
+    return delims.find((delim: string) => input.startsWith(delim, i));
+  }
+
+  function hasStringPrefix(input: string, prefixes: string[] | undefined) {
+    const preceding = input.substring(0, i).toLowerCase();
+    return !!prefixes?.some((prefix: string) => {
+      return preceding.endsWith(prefix) && !isIdentifier(preceding[preceding.length - prefix.length - 1] || ' ');
+    });
   }
 
-  function isIdentifier(char: string) {
-    return config.IDENTIFIER.includes(char);
+  function getEscapeStyle(input: string, quoteChar: string): EscapeStyle {
+    if (config.RAW_STRING_DELIM?.includes(quoteChar)) return 'none';
+    return hasStringPrefix(input, config.VERBATIM_STRING_PREFIX) ? 'doubled' : 'backslash';
   }
 
   function isKeyword(str: string) {
     return config.KEYWORD.includes(str);
   }
 
+  function isSymbol(input: string) {
+    if (!config.SYMBOL_PREFIX?.includes(input[i]) || !isIdentifierStart(input[i + 1])) return false;
+    let end = i + 1;
+    while (end < input.length && isIdentifier(input[end])) end++;
+    return !isStringDelim(input[i]) || input[end] !== input[i];
+  }
+
+  function isTemplateString(input: string, quoteChar: string) {
+    return !!config.TEMPLATE_STRING_DELIM?.includes(quoteChar[0]) || hasStringPrefix(input, config.TEMPLATE_STRING_PREFIX);
+  }
+
+  function findLastCodeToken(tokens: Token[]): Token | undefined {
+    for (let j = tokens.length - 1; j >= 0; j--) {
+      if (tokens[j].type !== TOKEN_WHITESPACE && tokens[j].type !== TOKEN_COMMENT) return tokens[j];
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the end of a regular expression literal that starts at the current caret position. The delimiter does not end
+   * the literal inside character classes (`[/]`) or when it is escaped. Regular expressions can not span multiple lines.
+   *
+   * @param input The input string
+   * @param previous The last token before the caret position that is not whitespace or a comment
+   * @returns The index after the closing delimiter or -1 if there is no regular expression literal at the caret position
+   */
+  function findRegexEnd(input: string, previous: Token | undefined): number {
+    const delim = config.REGEX_DELIM;
+    if (!delim || !input.startsWith(delim, i)) return -1;
+    if (previous?.type === TOKEN_KEYWORD && !config.REGEX_PRECEDING_KEYWORDS?.includes('' + previous.value)) return -1;
+    if (previous?.type === TOKEN_PUNCTUATION && ')]}'.includes('' + previous.value)) return -1;
+    if (previous && ![TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_KEYWORD].includes(previous.type)) return -1;
+    let inClass = false;
+    for (let j = i + delim.length; j < input.length && input[j] !== '\n'; j++) {
+      if (input[j] === '\\') j++;
+      else if (input[j] === '[') inClass = true;
+      else if (input[j] === ']') inClass = false;
+      else if (!inClass && input.startsWith(delim, j)) return j + delim.length;
+    }
+    return -1;
+  }
+
+  function isFormatSpecStart(input: string) {
+    return !!config.TEMPLATE_FORMAT_SPEC_START?.includes(input[i]) && input[i + 1] !== '=' && !'=!<>'.includes(input[i - 1]);
+  }
+
   // Read funcions
 
   /**
@@ -116,7 +285,8 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
      *
      * @param input The input string to read
      * @param endDelim Read until this string is encountered
-     * @param canEscape If true, endDelim can be escaped by '\', meaning that it won't end the reading
+     * @param canEscape If true, endDelim can be escaped by '\', meaning that it won't end the reading.
+     *                  Escaped quote characters are unescaped, other escape sequences (like '\n') are kept as they are.
      * @returns The string that was read until endDelim was encountered
      */
   function readUntil(input: string, endDelim: string, canEscape: boolean = true): string {
@@ -125,6 +295,7 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
     while (i < input.length) {
       if (escaped) {
         escaped = false; // Unset escaped and consume the character
+        if (!isStringDelim(input[i])) str += '\\';
       } else if (canEscape && input[i] === '\\') {
         escaped = true; // Set flag and skip over the escape character
         i++;
@@ -168,7 +339,37 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
      * @returns An operator Token
      */
   function readOperator(input: string): Token {
-    return { type: TOKEN_OPERATOR, value: readWhile(input, isOperator) };
+    const start = i++;
+    // Stop before a regular expression that directly follows the operator (`a=/b/`)
+    while (isOperator(input[i]) && findRegexEnd(input, { type: TOKEN_OPERATOR, value: '' }) === -1) i++;
+    return { type: TOKEN_OPERATOR, value: input.substring(start, i) };
+  }
+
+  /**
+     * Read a regular expression literal, including its flags, at the current caret position in the input string
+     * and move the internal caret forward.
+     * @param input The input string to read
+     * @param end The index after the closing delimiter of the regular expression
+     * @returns A regex Token
+     */
+  function readRegex(input: string, end: number): Token {
+    const start = i;
+    i = end;
+    readWhile(input, isIdentifier);
+    return { type: TOKEN_REGEX, value: input.substring(start, i) };
+  }
+
+  /**
+     * Read a character that does not belong to any of the configured character classes at the current caret position
+     * in the input string and move the internal caret forward. Characters outside of the basic multilingual plane
+     * (like emoji) are read as a whole.
+     * @param input The input string to read
+     * @returns An unknown Token
+     */
+  function readUnknown(input: string): Token {
+    const char = String.fromCodePoint(input.codePointAt(i)!);
+    i += char.length;
+    return { type: TOKEN_UNKNOWN, value: char };
   }
 
   /**
@@ -190,29 +391,154 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
     return { type: isKeyword(str) ? TOKEN_KEYWORD : TOKEN_IDENTIFIER, value: str };
   }
 
+  /**
+     * Read a symbol (a prefix character followed by an identifier) at the current caret position in the input string
+     * and move the internal caret forward.
+     * @param input The input string to read
+     * @returns A keyword Token
+     */
+  function readSymbol(input: string): Token {
+    const prefix = input[i++];
+    return { type: TOKEN_KEYWORD, value: prefix + readWhile(input, isIdentifier) };
+  }
+
   /**
      * Read a quoted string at the current caret position in the input string and move the internal caret forward.
      * @param input The input string to read
      * @returns A string Token
      */
   function readString(input: string, quoteChar: string): Token {
+    const escapeStyle = getEscapeStyle(input, quoteChar);
+    if (isTemplateString(input, quoteChar)) return readTemplateString(input, quoteChar, escapeStyle);
+    if (escapeStyle !== 'backslash') return readVerbatimString(input, quoteChar, escapeStyle);
     i += quoteChar.length;
     const str = readUntil(input, quoteChar);
     i += quoteChar.length;
     return { type: TOKEN_STRING, value: str };
   }
 
+  /**
+     * Read a verbatim or raw string at the current caret position in the input string and move the internal caret forward.
+     * The string is kept as it was written since backslashes do not escape anything in it.
+     * @param input The input string to read
+     * @param quoteChar The string delimiter
+     * @param escapeStyle How quotation marks are escaped in the string
+     * @returns A verbatim string Token
+     */
+  function readVerbatimString(input: string, quoteChar: string, escapeStyle: EscapeStyle): Token {
+    i += quoteChar.length;
+    const start = i;
+    while (i < input.length) {
+      if (escapeStyle === 'doubled' && input.startsWith(quoteChar + quoteChar, i)) i += quoteChar.length * 2;
+      else if (input.startsWith(quoteChar, i)) break;
+      else i++;
+    }
+    const str = input.substring(start, i);
+    i += quoteChar.length;
+    return {
+      type: TOKEN_STRING, value: str, quoteCharacter: quoteChar, verbatim: true,
+    };
+  }
+
+  /**
+     * Read an expression embedded in a template string (`${...}`) at the current caret position in the input string
+     * and move the internal caret forward. Nested braces, parentheses and strings are skipped over, as is the
+     * format specification of the expression (`{a:N2}`).
+     * @param input The input string to read
+     * @returns The source code of the expression, without the start and end delimiters and the format specification
+     */
+  function readTemplateExpression(input: string): string {
+    i += config.TEMPLATE_EXPRESSION_START!.length;
+    const start = i;
+    let end = -1;
+    let depth = 0;
+    while (i < input.length) {
+      if (depth === 0 && input.startsWith(config.TEMPLATE_EXPRESSION_END!, i)) break;
+      if (depth === 0 && end === -1 && isFormatSpecStart(input)) {
+        end = i;
+      } else if (isStringDelim(input[i])) {
+        const quoteChar = input[i++];
+        readUntil(input, quoteChar);
+      } else if (input[i] === '{' || input[i] === '(') {
+        depth++;
+      } else if (input[i] === '}' || input[i] === ')') {
+        depth--;
+      }
+      i++;
+    }
+    const expression = input.substring(start, end === -1 ? i : end);
+    i += config.TEMPLATE_EXPRESSION_END!.length;
+    return expression;
+  }
+
+  /**
+     * Read a quoted string that can contain template expressions at the current caret position in the input string
+     * and move the internal caret forward. The string is kept as it is and the tokens of each embedded expression are
+     * listed separately.
+     * @param input The input string to read
+     * @param quoteChar The string delimiter
+     * @param escapeStyle How quotation marks are escaped in the string
+     * @returns A string Token
+     */
+  function readTemplateString(input: string, quoteChar: string, escapeStyle: EscapeStyle): Token {
+    const expressions: Token[][] = [];
+    const identifierPrefix = config.TEMPLATE_IDENTIFIER_PREFIX;
+    const expressionStart = config.TEMPLATE_EXPRESSION_START;
+    let str = '';
+    i += quoteChar.length;
+    while (i < input.length) {
+      if (escapeStyle === 'doubled' && input.startsWith(quoteChar + quoteChar, i)) {
+        str += quoteChar + quoteChar;
+        i += quoteChar.length * 2;
+      } else if (input.startsWith(quoteChar, i)) {
+        break;
+      } else if (expressionStart?.length === 1 && input.startsWith(expressionStart + expressionStart, i)) {
+        str += expressionStart + expressionStart;
+        i += 2;
+      } else if (expressionStart && input.startsWith(expressionStart, i)) {
+        // Checked before escape sequences since the expression start can begin with a backslash (swift "\(a)")
+        const start = i;
+        const expression = readTemplateExpression(input);
+        str += input.substring(start, i);
+        const expressionOffset = start + expressionStart.length;
+        expressions.push(moveTokens(createTokenizer(config)(expression), expressionOffset, getLineAt(input, expressionOffset)));
+      } else if (escapeStyle === 'backslash' && input[i] === '\\') {
+        // Keep the escape sequence as it is, except for escaped quotes (like readUntil)
+        str += (isStringDelim(input[i + 1]) ? '' : '\\') + (input[i + 1] || '');
+        i += 2;
+      } else if (identifierPrefix && input.startsWith(identifierPrefix, i) && isIdentifierStart(input[i + identifierPrefix.length])) {
+        i += identifierPrefix.length;
+        const start = i;
+        const token = readIdentifier(input);
+        str += identifierPrefix + token.value;
+        expressions.push([{
+          ...token, start, end: i, line: getLineAt(input, start),
+        }]);
+      } else {
+        str += input[i++];
+      }
+    }
+    i += quoteChar.length;
+    const token: Token = { type: TOKEN_STRING, value: str };
+    if (expressions.length) token.expressions = expressions;
+    if (expressions.length || escapeStyle !== 'backslash') token.quoteCharacter = quoteChar;
+    if (escapeStyle !== 'backslash') token.verbatim = true;
+    return token;
+  }
+
   /**
      * Read a single line comment at the current caret position in the input string and move the internal caret forward.
-     * This advances the caret to the end of the input string.
+     * This advances the caret to the end of the line, which is the end of the input string unless the input
+     * spans multiple lines.
      *
      * @param input The input string to read
      * @returns A comment Token
      */
   function readSingleLineComment(input: string): Token {
-    const str = input.substr(i + config.SINGLE_LINE_COMMENT.length);
-    i = input.length;
-    return { type: TOKEN_COMMENT, value: str };
+    const start = i + findSingleLineComment(input)!.length;
+    const end = input.indexOf('\n', start);
+    i = end === -1 ? input.length : end;
+    return { type: TOKEN_COMMENT, value: input.substring(start, i) };
   }
 
   /**
@@ -221,9 +547,9 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
      * @returns A comment Token
      */
   function readMultiLineComment(input: string): Token {
-    i += config.MULTI_LINE_COMMENT_START.length;
-    const str = readUntil(input, config.MULTI_LINE_COMMENT_END, false);
-    i += config.MULTI_LINE_COMMENT_END.length;
+    i += config.MULTI_LINE_COMMENT_START!.length;
+    const str = readUntil(input, config.MULTI_LINE_COMMENT_END!, false);
+    i += config.MULTI_LINE_COMMENT_END!.length;
     return { type: TOKEN_COMMENT, value: str };
   }
 
@@ -231,37 +557,51 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
 
   /**
      * The tokenize function takes a line of code as a string and returns an array of Token objets that
-     * represent individual code atoms.
+     * represent individual code atoms. Characters that can not be read are returned as unknown tokens.
+     * The tokens know their positions in the input.
      *
      * @param input The input string to tokenize
      * @returns an array of Tokens
      */
   function tokenize(input: string): Token[] {
     const tokens: Token[] = [];
+    let line = 0;
     i = 0;
-    // q is infinite loop protection, the internal caret i is incremented in read* functions
-    for (let q = 0; q < 9999 && i < input.length; q++) {
+    // The internal caret i is incremented in read* functions
+    while (i < input.length) {
+      const start = i;
       const c = input[i];
+      const multiCharStringDelim = findMultiCharStringDelim(input);
+      const regexEnd = c === config.REGEX_DELIM?.[0] ? findRegexEnd(input, findLastCodeToken(tokens)) : -1;
       let token;
       switch (true) {
         case isWhitespace(c):
           token = readWhitespace(input);
           break;
-        case isSingleLineComment(input):
+        case isMultiLineComment(input): // Before single line comments since lua `--[[` starts like `--`
+          token = readMultiLineComment(input);
+          break;
+        case !!findSingleLineComment(input):
           token = readSingleLineComment(input);
           break;
-        case isMultiLineComment(input):
-          token = readMultiLineComment(input);
+        case regexEnd !== -1: // Before operators since the delimiter is usually an operator
+          token = readRegex(input, regexEnd);
           break;
         case isDigit(c):
           token = readNumber(input);
           break;
+        case isSymbol(input):
+          token = readSymbol(input);
+          break;
         case isOperator(c):
           token = readOperator(input);
           break;
         case isPunctuation(c):
           token = readPunctuation(input);
           break;
+        case !!multiCharStringDelim:
+          token = readString(input, multiCharStringDelim!);
+          break;
         case isStringDelim(c):
           token = readString(input, c);
           break;
@@ -269,9 +609,14 @@ export function createTokenizer(config: TokenizerConfig): Tokenizer {
           token = readIdentifier(input);
           break;
         default:
-          throw new Error(`LogMagic: Tokenizer failed to parse next token "${input.substring(i, 16)}..."`);
+          token = readUnknown(input);
       }
-      tokens.push(token);
+      // Infinite loop protection: a character that no read function moves the caret past is read as an unknown token
+      if (i === start) token = readUnknown(input);
+      tokens.push({
+        ...token, start, end: i, line,
+      });
+      line += input.substring(start, i).split('\n').length - 1;
     }
     return tokens;
   }
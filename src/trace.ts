@@ -0,0 +1,186 @@
+import { ParseResult, Parser } from './parser';
+import {
+  Token, TOKEN_COMMENT, TOKEN_PUNCTUATION, TOKEN_STRING, TOKEN_WHITESPACE,
+} from './tokenizer';
+import {
+  canLogAboveReturn, ensureLogId, findFunctionHeader, findFunctionReturns, getCodeBlockAt,
+} from './util';
+
+/**
+ * The comment that trace statements are tagged with, so that they can be told apart from other log statements.
+ */
+export const TRACE_TAG = 'logmagic:trace';
+
+/**
+ * A log statement to write into a document for tracing a function.
+ *
+ * line: The line to write the statement next to
+ * direction: Whether the statement is written after (1) or before (-1) the line
+ * indentLine: The line whose indentation the statement gets
+ * indentInside: Whether the statement is indented one level deeper than indentLine
+ * parseResult: The ParseResult to log
+ */
+export type TraceStatement = {
+  line: number;
+  direction: 1 | -1;
+  indentLine: number;
+  indentInside: boolean;
+  parseResult: ParseResult;
+};
+
+/**
+ * The options for finding the trace statements of code.
+ *
+ * tokenize: The tokenizer of the language
+ * parse: The parser of the language, used for parsing the function headers
+ * logIdKeywords: The keywords that the parser uses as log ids (`if`, `for`, ...). Code blocks with these log ids
+ *                are not functions.
+ * firstLine: (optional) The first line of the code to trace, eg. the first line of an embedded script region
+ * lastLine: (optional) The last line of the code to trace
+ * isTraced: (optional) A function that returns true if the given line is already a trace statement
+ */
+export type TraceOptions = {
+  tokenize: (code: string) => Token[];
+  parse: Parser;
+  logIdKeywords: string[];
+  firstLine?: number;
+  lastLine?: number;
+  isTraced?: (line: string) => boolean;
+};
+
+function isCode(t: Token): boolean {
+  return t.type !== TOKEN_WHITESPACE && t.type !== TOKEN_COMMENT;
+}
+
+function isPunctuation(t: Token, value: string): boolean {
+  return t.type === TOKEN_PUNCTUATION && t.value === value;
+}
+
+/**
+ * Check whether the token at the given index is the last code on its line, ie. nothing but whitespace and comments
+ * follow it on the same line.
+ *
+ * @param tokens The tokens
+ * @param index The index of the token
+ * @param direction Whether to check the code after (1) or before (-1) the token on its line
+ * @returns true if there is no other code on the line in the given direction
+ */
+function isAloneOnLine(tokens: Token[], index: number, direction: -1 | 1): boolean {
+  for (let i = index + direction; i >= 0 && i < tokens.length && tokens[i].line === tokens[index].line; i += direction) {
+    if (isCode(tokens[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Find the last line before the given line that is not empty.
+ *
+ * @param lines The lines of the code
+ * @param lineNr The line to start from
+ * @returns The trimmed code of the previous line or an empty string if there is none
+ */
+function getPreviousCode(lines: string[], lineNr: number): string {
+  for (let i = lineNr - 1; i >= 0; i--) if (lines[i].trim()) return lines[i].trim();
+  return '';
+}
+
+/**
+ * Find the statements that trace the functions of the given code: an entry statement that logs the parameters of
+ * each function at the start of its body, and an exit statement above each of its return statements and at the end
+ * of its body. Functions, methods and lambdas assigned to names are traced. Code blocks are told apart from functions
+ * by their header (see isFunctionHeader) and by the log id that the parser finds for it, so that control flow
+ * statements are left out. Lambdas passed as arguments (`items.forEach((item) => {`), functions whose body does not
+ * start on a line of its own and functions that are already traced are left out too.
+ *
+ * @param lines The lines of the code
+ * @param startLine The first line of the functions to trace. Functions whose header starts before it are left out.
+ * @param endLine The last line of the functions to trace. Functions whose header starts after it are left out.
+ * @param options The TraceOptions of the language
+ * @returns The TraceStatements
+ */
+export function findTraceStatements(lines: string[], startLine: number, endLine: number, options: TraceOptions): TraceStatement[] {
+  const firstLine = options.firstLine || 0;
+  const lastLine = options.lastLine ?? lines.length - 1;
+  const tokens = options.tokenize(lines.slice(firstLine, lastLine + 1).join('\n'));
+  const statements: TraceStatement[] = [];
+
+  tokens.forEach((token: Token, i: number) => {
+    if (!isPunctuation(token, '{') || !isAloneOnLine(tokens, i, 1)) return;
+    const braceLine = token.line! + firstLine;
+    const header = findFunctionHeader(lines, braceLine, firstLine);
+    if (!header || header.end !== braceLine || header.start < startLine || header.start > endLine) return;
+    if (options.isTraced?.(lines[braceLine + 1] || '')) return;
+
+    // Lambdas passed as arguments are inside the parentheses of the call
+    const headerTokens = options.tokenize(lines.slice(header.start, header.end + 1).map((line: string) => line.trim()).join('\n'));
+    const openParens = headerTokens.filter((t: Token) => isPunctuation(t, '(')).length;
+    if (openParens !== headerTokens.filter((t: Token) => isPunctuation(t, ')')).length) return;
+
+    const parseResult = options.parse(headerTokens);
+    if (parseResult.logId && options.logIdKeywords.includes('' + parseResult.logId.value)) return;
+    const name = ensureLogId(parseResult, braceLine, 1).logId!.value;
+    const createExit = (): ParseResult => ({ tokens: [], logItems: [], logId: { type: TOKEN_STRING, value: `exit ${name}` } });
+
+    parseResult.logId = { type: TOKEN_STRING, value: `enter ${name}` };
+    statements.push({
+      line: braceLine, direction: 1, indentLine: header.start, indentInside: true, parseResult,
+    });
+
+    findFunctionReturns(tokens.slice(i), token.line!).forEach((returnTokens: Token[]) => {
+      const returnLine = returnTokens[0].line! + firstLine;
+      if (!canLogAboveReturn(lines, returnLine, braceLine)) return;
+      statements.push({
+        line: returnLine, direction: -1, indentLine: returnLine, indentInside: false, parseResult: createExit(),
+      });
+    });
+
+    // The exit statement at the end of the body would not be reached after a return or throw statement
+    const closingIndex = i + getCodeBlockAt(tokens, i).length - 1;
+    if (!isPunctuation(tokens[closingIndex], '}') || !isAloneOnLine(tokens, closingIndex, -1)) return;
+    const closingLine = tokens[closingIndex].line! + firstLine;
+    if (closingLine > braceLine + 1 && /^(return|throw)\b/.test(getPreviousCode(lines, closingLine))) return;
+    statements.push({
+      line: closingLine, direction: -1, indentLine: closingLine, indentInside: true, parseResult: createExit(),
+    });
+  });
+
+  return statements;
+}
+
+/**
+ * Tag a log statement as a trace statement with a comment.
+ *
+ * @param logStatement The log statement
+ * @param lineComment The single line comment of the language, like //
+ * @returns The tagged log statement
+ */
+export function tagTraceStatement(logStatement: string, lineComment: string): string {
+  return `${logStatement} ${lineComment} ${TRACE_TAG}`;
+}
+
+/**
+ * Check whether a line ends with the trace tag.
+ *
+ * @param line The line of code
+ * @returns true if the line is tagged as a trace statement
+ */
+export function hasTraceTag(line: string): boolean {
+  return line.trimRight().endsWith(' ' + TRACE_TAG);
+}
+
+/**
+ * Find the trace statements between the given lines. They are recognized by their tag alone, so that trace statements
+ * that were written with the configured log formats are found as well.
+ *
+ * @param lines The lines of code
+ * @param startLine The first line to search
+ * @param endLine The last line to search
+ * @returns The numbers of the lines that are trace statements
+ */
+export function findTracedLines(lines: string[], startLine: number, endLine: number): number[] {
+  const tracedLines: number[] = [];
+  for (let i = startLine; i <= Math.min(endLine, lines.length - 1); i++) {
+    if (hasTraceTag(lines[i])) tracedLines.push(i);
+  }
+  return tracedLines;
+}
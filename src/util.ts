@@ -1,6 +1,6 @@
 import { ParseResult } from './parser';
 import {
-  Token, TokenType, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING,
+  Token, TokenType, TOKEN_COMMENT, TOKEN_KEYWORD, TOKEN_OPERATOR, TOKEN_PUNCTUATION, TOKEN_STRING, TOKEN_WHITESPACE,
 } from './tokenizer';
 
 export const PARENS: string = '{[()]}';
@@ -20,6 +20,17 @@ function isOppositeParen(t: Token, initialParen: string): boolean {
   return isPuncOrOp(t) && t.value === PARENS_EXT[PARENS_EXT.length - 1 - PARENS_EXT.indexOf(initialParen)];
 }
 
+/**
+ * Escapes the given quotation marks in the string.
+ *
+ * @param str The string to escape
+ * @returns The escaped string
+ */
+export function escapeString(str: string, quoteChar: string = '"'): string {
+  const regex = new RegExp(quoteChar, 'g');
+  return str.replace(regex, `\\${quoteChar}`);
+}
+
 /**
  * Wraps the given string in quotation marks and also escapes the same quotation marks in the string.
  *
@@ -27,18 +38,20 @@ function isOppositeParen(t: Token, initialParen: string): boolean {
  * @returns The quoted string
  */
 export function quoteString(str: string, quoteChar: string = '"'): string {
-  const regex = new RegExp(quoteChar, 'g');
-  return quoteChar + str.replace(regex, `\\${quoteChar}`) + quoteChar;
+  return quoteChar + escapeString(str, quoteChar) + quoteChar;
 }
 
 /**
- * Serializes the token for output. Wraps string tokens in quotation marks.
+ * Serializes the token for output. Wraps string tokens in quotation marks. Template strings keep the delimiter
+ * they were written with since other quotation marks would turn them into plain strings. Verbatim strings are
+ * written as they are.
  *
  * @param token The token to serialize
  * @returns Serialized token value
  */
 export function serializeToken(token: Token, quoteChar: string = '"'): string {
-  return token.type === TOKEN_STRING ? quoteString('' + token.value, quoteChar) : '' + token.value;
+  if (token.verbatim) return token.quoteCharacter! + token.value + token.quoteCharacter!;
+  return token.type === TOKEN_STRING ? quoteString('' + token.value, token.quoteCharacter || quoteChar) : '' + token.value;
 }
 
 /**
@@ -51,16 +64,38 @@ export function serializeTokens(tokens: Token[], quoteChar: string | undefined =
   return tokens.reduce((acc: string, t: Token) => acc + serializeToken(t, quoteChar), '');
 }
 
+/**
+ * Extend the span of a token to the end of another token. Used when tokens are combined into the first of them,
+ * so that the combined token still knows where it came from.
+ *
+ * @param token The token to extend. It is modified in place.
+ * @param lastToken The last of the combined tokens
+ */
+export function extendTokenSpan(token: Token, lastToken: Token): void {
+  if (lastToken.end !== undefined) token.end = lastToken.end;
+}
+
+/**
+ * Patterns of lines that open or close code blocks without brackets, like ruby's `items.each do |item|` and `end`.
+ * Languages that have such blocks export them as CODE_BLOCK_PATTERNS.
+ */
+export type CodeBlockPatterns = {
+  opening: RegExp[];
+  closing: RegExp[];
+};
+
 /**
  * A function that returns true if the given string is opening a new code block
  * (by testing to see if there is an opening paren of some sort that is not matched
- * by a closing paren or if the line ends with a colon).
+ * by a closing paren, if the line ends with a colon or if it matches one of the opening patterns of the language).
  *
  * @param str The string to test
+ * @param patterns The opening patterns of the language
  * @returns true if the string contains the opening of a code block
  */
-export function isOpeningCodeBlock(str: string): boolean {
+export function isOpeningCodeBlock(str: string, patterns: RegExp[] = []): boolean {
   if (str[str.length - 1] === ':') return true;
+  if (patterns.some((pattern: RegExp) => pattern.test(str))) return true;
 
   for (let i = 0; i < openingP.length; i++) {
     let depth = 0;
@@ -76,12 +111,14 @@ export function isOpeningCodeBlock(str: string): boolean {
 /**
  * A function that returns true if the given string is closing a code block
  * (by testing to see if there is a closing paren of some sort that is not matched
- * by an opening paren).
+ * by an opening paren or if it matches one of the closing patterns of the language).
  *
  * @param str The string to test
+ * @param patterns The closing patterns of the language
  * @returns true if the string contains the closing of a code block
  */
-export function isClosingCodeBlock(str: string): boolean {
+export function isClosingCodeBlock(str: string, patterns: RegExp[] = []): boolean {
+  if (patterns.some((pattern: RegExp) => pattern.test(str))) return true;
   for (let i = 0; i < closingP.length; i++) {
     let depth = 0;
     for (let j = 0; j < str.length; j++) {
@@ -93,6 +130,152 @@ export function isClosingCodeBlock(str: string): boolean {
   return false;
 }
 
+const MAX_STATEMENT_LINES = 50;
+
+/**
+ * Remove the quoted strings from a line of code so that the brackets inside them are not counted. Rust lifetimes
+ * (`<'a>`, `&'a str`, `<'a, 'b>`) have no closing quotation mark, so they are removed before they can start a string.
+ *
+ * @param line The line of code
+ * @returns The line without strings
+ */
+function removeQuotedStrings(line: string): string {
+  return line.replace(/(?<=[<&]|'\w+,\s*)'[A-Za-z_]\w*(?![\w'])|(["'`])(?:\\.|(?!\1).)*\1/g, '');
+}
+
+/**
+ * Find the lines of the statement that the given line is a part of. A statement continues over line breaks while
+ * it has unclosed parentheses or brackets, like a function call with its arguments on separate lines or a function
+ * signature with its parameters on separate lines. Braces are not followed since they open code blocks.
+ * If the statement does not close (eg. while it is being written), it ends at the given line.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The number of the line
+ * @returns The numbers of the first and the last line of the statement
+ */
+export function getStatementRange(lines: string[], lineNr: number): { start: number; end: number } {
+  // Walk up to the first line that opens a parenthesis or bracket that is not closed before the given line
+  let start = lineNr;
+  let depth = 0;
+  for (let i = lineNr - 1; i >= 0 && i >= lineNr - MAX_STATEMENT_LINES; i--) {
+    const line = removeQuotedStrings(lines[i]);
+    let j: number;
+    for (j = line.length - 1; j >= 0; j--) {
+      if (line[j] === '{' && depth === 0) break; // The line opens the code block that the statement is in
+      if (closingP.includes(line[j])) depth++;
+      else if (openingP.includes(line[j]) && depth-- === 0) {
+        depth = 0;
+        start = i;
+      }
+    }
+    if (j >= 0) break;
+  }
+
+  // Walk down until the parentheses and brackets opened in the statement are closed
+  const opened: string[] = [];
+  for (let i = start; i < lines.length && i <= start + MAX_STATEMENT_LINES; i++) {
+    const line = removeQuotedStrings(lines[i]);
+    for (let j = 0; j < line.length; j++) {
+      if (openingP.includes(line[j])) opened.push(line[j]);
+      else if (closingP.includes(line[j])) opened.pop();
+    }
+    if (i >= lineNr && opened.every((p: string) => p === '{')) return { start, end: i };
+  }
+  return { start, end: lineNr };
+}
+
+const CONTROL_FLOW_KEYWORDS = 'if|elif|for|foreach|while|switch|catch|with|using|lock|synchronized|when|match|guard';
+const CONTROL_FLOW_HEADER = new RegExp(`^(}\\s*)?(else\\s+)?(${CONTROL_FLOW_KEYWORDS})\\b`);
+const FUNCTION_KEYWORD = /\b(function|func|fn|fun|def|sub)\b/;
+const PARAMETERS_END = /(\)|=>|->)\s*((:|->|throws\b|const\b|override\b|noexcept\b|where\b)[^;={}]*)?$/;
+
+/**
+ * A function that returns true if the given code (the code before the opening brace of a code block) is the header
+ * of a function, method or lambda rather than of a control flow statement, a class or an object literal.
+ *
+ * @param code The code before the opening brace
+ * @returns true if the code block is a function body
+ */
+export function isFunctionHeader(code: string): boolean {
+  const header = code.trim();
+  if (CONTROL_FLOW_HEADER.test(header)) return false;
+  return PARAMETERS_END.test(header) || (FUNCTION_KEYWORD.test(header) && header.includes('('));
+}
+
+const BRACELESS_CONTROL_FLOW = /^(}\s*)?(else|(else\s+)?(if|for|foreach|while)\b.*\))$/;
+
+/**
+ * A function that returns true if a statement can be written above the given return statement without changing what
+ * the code does. That is not the case if the return statement does not start its line (`if (a) return b;`) or if it is
+ * the body of a control flow statement without braces on the line before it.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The line of the return statement
+ * @param headerEnd The line with the opening brace of the function body
+ * @returns true if a statement can be written above the return statement
+ */
+export function canLogAboveReturn(lines: string[], lineNr: number, headerEnd: number): boolean {
+  if (!/^\s*return\b/.test(lines[lineNr])) return false;
+  let previousLine = lineNr - 1;
+  while (previousLine > headerEnd && !lines[previousLine].trim()) previousLine--;
+  return !BRACELESS_CONTROL_FLOW.test(lines[previousLine].trim());
+}
+
+/**
+ * Find the header of the function that the given line is in. Scans upwards for opening braces that are not closed
+ * before the given line and returns the first one whose header is a function header (see isFunctionHeader).
+ * An opening brace on a line of its own belongs to the statement on the line before it.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The number of the line inside the function
+ * @param firstLine The first line to scan, eg. the first line of an embedded script region
+ * @returns The first and last line of the header (the line with the opening brace) or null if there is no function
+ */
+export function findFunctionHeader(lines: string[], lineNr: number, firstLine = 0): { start: number; end: number } | null {
+  let depth = 0;
+  for (let i = lineNr; i >= firstLine; i--) {
+    const line = removeQuotedStrings(lines[i]);
+    for (let j = line.length - 1; j >= 0; j--) {
+      if (line[j] === '}') depth++;
+      else if (line[j] === '{' && depth-- === 0) {
+        depth = 0;
+        const beforeBrace = line.substring(0, j);
+        const headerEnd = beforeBrace.trim() || i === firstLine ? i : i - 1;
+        const start = Math.max(firstLine, getStatementRange(lines, headerEnd).start);
+        const header: string[] = [];
+        for (let k = start; k < i; k++) header.push(removeQuotedStrings(lines[k]).trim());
+        header.push(beforeBrace.trim());
+        if (isFunctionHeader(header.join('\n'))) return { start, end: i };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the line that closes the code block opened on the given line, like the end of a function body whose header
+ * ends on the line. The last brace on the line that is not closed on the same line opens the code block.
+ *
+ * @param lines The lines of the document
+ * @param lineNr The number of the line that opens the code block
+ * @param lastLine The last line to scan, eg. the last line of an embedded script region
+ * @returns The line with the closing brace or lastLine if the code block does not close
+ */
+export function findCodeBlockEnd(lines: string[], lineNr: number, lastLine = lines.length - 1): number {
+  let depth = 0;
+  let outerDepth = -1;
+  for (let i = lineNr; i <= lastLine; i++) {
+    const line = removeQuotedStrings(lines[i]);
+    for (let j = 0; j < line.length; j++) {
+      if (line[j] === '{') depth++;
+      else if (line[j] === '}' && i === lineNr) depth = Math.max(0, depth - 1);
+      else if (line[j] === '}' && --depth === outerDepth) return i;
+    }
+    if (i === lineNr) outerDepth = depth - 1;
+  }
+  return lastLine;
+}
+
 export function findTokenIndex(tokens: Token[], type: TokenType, value: string, fromIndex: number = 0): number {
   return tokens.findIndex((t: Token, i: number) => i >= fromIndex && t.type === type && t.value === value);
 }
@@ -132,6 +315,92 @@ export function isCompleteCodeBlock(tokens: Token[]): boolean {
   return tokens.length > 0 && isPuncOrOp(tokens[0]) && isOppositeParen(tokens[tokens.length - 1], '' + tokens[0].value);
 }
 
+/**
+ * Find the end of the expression of a return statement. The expression ends at a semicolon or at the end of the code
+ * block that the return statement is in. It also ends at a line break unless the line ends with an operator or a comma
+ * that continues it on the next line, since not all languages end their statements with semicolons.
+ * Code blocks in the expression, like lambdas, are included as a whole.
+ *
+ * @param tokens The tokens to search
+ * @param returnIndex The index of the return keyword
+ * @returns The index after the last token of the expression
+ */
+function findReturnExpressionEnd(tokens: Token[], returnIndex: number): number {
+  let lastCode: Token = tokens[returnIndex];
+  for (let i = returnIndex + 1; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.type === TOKEN_PUNCTUATION && (t.value === ';' || closingP.includes('' + t.value))) return i;
+    if (t.type === TOKEN_WHITESPACE && ('' + t.value).includes('\n') && lastCode.type !== TOKEN_OPERATOR && lastCode.value !== ',') {
+      return i;
+    }
+    if (t.type === TOKEN_PUNCTUATION && openingP.includes('' + t.value)) i += getCodeBlockAt(tokens, i).length - 1;
+    if (t.type !== TOKEN_WHITESPACE && t.type !== TOKEN_COMMENT) lastCode = tokens[i];
+  }
+  return tokens.length;
+}
+
+/**
+ * Find the return statements of a function body. The bodies of nested functions and lambdas (code blocks whose header
+ * is a function header, see isFunctionHeader) are skipped since their return statements do not return from the function.
+ *
+ * @param tokens The tokens of the function, starting with its header and positioned relative to the first header line
+ * @param headerEndLine The line of the header with the opening brace of the function body, relative to the tokens
+ * @returns The tokens of each return statement, from the return keyword to the end of the returned expression
+ */
+export function findFunctionReturns(tokens: Token[], headerEndLine: number): Token[][] {
+  // The function body starts at the last brace on the last line of the header that is not closed on the same line
+  const openBraces: number[] = [];
+  for (let i = 0; i < tokens.length && tokens[i].line! <= headerEndLine; i++) {
+    if (tokens[i].line !== headerEndLine || tokens[i].type !== TOKEN_PUNCTUATION) continue;
+    if (tokens[i].value === '{') openBraces.push(i);
+    else if (tokens[i].value === '}') openBraces.pop();
+  }
+  const bodyStart = openBraces.pop();
+  if (bodyStart === undefined) return [];
+
+  const bodyEnd = bodyStart + getCodeBlockAt(tokens, bodyStart).length - 1;
+  const returns: Token[][] = [];
+  let statementStart = bodyStart + 1;
+  for (let i = bodyStart + 1; i < bodyEnd; i++) {
+    const t = tokens[i];
+    if (t.type === TOKEN_KEYWORD && t.value === 'return') {
+      const end = findReturnExpressionEnd(tokens, i);
+      returns.push(tokens.slice(i, end));
+      i = end - 1;
+    } else if (t.type === TOKEN_PUNCTUATION && t.value === '{') {
+      if (isFunctionHeader(serializeTokens(tokens.slice(statementStart, i)))) i += getCodeBlockAt(tokens, i).length - 1;
+      statementStart = i + 1;
+    } else if (t.type === TOKEN_PUNCTUATION && (t.value === ';' || t.value === '}')) {
+      statementStart = i + 1;
+    }
+  }
+  return returns;
+}
+
+const IMPURE_KEYWORDS = ['new', 'await', 'yield', 'delete', 'function', 'func', 'fn', 'fun', 'lambda'];
+const PURE_ASSIGNMENT_LIKE_OPERATORS = ['==', '===', '!=', '!==', '<=', '>='];
+
+/**
+ * A function that returns true if the given expression can be evaluated again by a log statement without side effects,
+ * ie. it has no function calls, assignments, increments, decrements or interpolated strings.
+ *
+ * @param tokens The tokens of the expression
+ * @returns true if the expression can be logged as it is
+ */
+export function isPureExpression(tokens: Token[]): boolean {
+  return tokens.every((t: Token) => {
+    const value = '' + t.value;
+    if (t.type === TOKEN_KEYWORD) return !IMPURE_KEYWORDS.includes(value);
+    if (t.type === TOKEN_STRING) return !t.expressions?.length;
+    if (t.type === TOKEN_PUNCTUATION) return value !== '(';
+    if (t.type === TOKEN_OPERATOR) {
+      if (PURE_ASSIGNMENT_LIKE_OPERATORS.includes(value)) return true;
+      return !/=|\+\+|--|<-/.test(value);
+    }
+    return true;
+  });
+}
+
 /**
  * Return an expression start starts or ends at startIndex. An expression is considered anything that starts
  * at startIndex, which is not an expression-break character and expands in the given direction until
@@ -241,3 +510,64 @@ export function ensureLogId(parseResult: ParseResult, lineNr: number, direction:
   if (!parseResult.logId) parseResult.logId = { type: TOKEN_STRING, value: 'L' + (lineNr + 1 + Math.max(0, direction)) };
   return parseResult;
 }
+
+/**
+ * Keep only the log item at the given position of a line, eg. `a.b[0].c` when the position is on the `0` of
+ * `x = a.b[0].c + d`. The item is looked up in the log items of the line by the positions of their tokens and matched
+ * with the log items of the statement by its code, so that statements spanning multiple lines work the same.
+ * If there is no log item at the position, no log items are kept.
+ *
+ * @param parseResult The ParseResult of the statement to modify in place
+ * @param lineLogItems The log items parsed from the line alone
+ * @param offset The position in the line
+ * @returns The modified ParseResult
+ */
+export function keepLogItemAt(parseResult: ParseResult, lineLogItems: Token[][], offset: number): ParseResult {
+  const isAtOffset = (t: Token) => t.start !== undefined && t.start <= offset && offset <= t.end!;
+  const lineLogItem = lineLogItems.find((logItem: Token[]) => logItem.some(isAtOffset));
+  const code = lineLogItem && serializeTokens(lineLogItem);
+  parseResult.logItems = parseResult.logItems.filter((logItem: Token[]) => serializeTokens(logItem) === code);
+  return parseResult;
+}
+
+/**
+ * Join the lines of tokens that span multiple lines in place. Line breaks after opening and before closing brackets are
+ * removed along with trailing commas, others become spaces.
+ *
+ * @param tokens The tokens to modify in place
+ */
+export function joinTokenLines(tokens: Token[]): void {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (tokens[i].type !== TOKEN_WHITESPACE || !('' + tokens[i].value).includes('\n')) continue;
+    if (i === 0 || i === tokens.length - 1 || openingP.includes('' + tokens[i - 1].value) || closingP.includes('' + tokens[i + 1].value)) {
+      tokens.splice(i, 1);
+      const isTrailingComma = i > 0 && i < tokens.length && tokens[i - 1].value === ',' && closingP.includes('' + tokens[i].value);
+      if (isTrailingComma) tokens.splice(--i, 1);
+    } else {
+      tokens[i] = { type: TOKEN_WHITESPACE, value: ' ' };
+    }
+  }
+}
+
+/**
+ * Create a ParseResult that logs the given expressions as they are, one log item per expression, eg. for logging
+ * selected code like 'items.length > 0' without stripping it down to identifiers. Comments and the whitespace around
+ * the expressions are removed and expressions that span multiple lines are joined into one.
+ *
+ * @param expressions The tokens of each expression
+ * @returns A ParseResult with a log item for each expression that is not empty
+ */
+export function parseExpressions(expressions: Token[][]): ParseResult {
+  const logItems = expressions.map((tokens: Token[]) => {
+    const logItem = tokens.filter((t: Token, i: number) => {
+      if (t.type === TOKEN_COMMENT) return false;
+      // Whitespace that surrounded a comment is merged
+      return t.type !== TOKEN_WHITESPACE || tokens[i - 1]?.type !== TOKEN_COMMENT || tokens[i - 2]?.type !== TOKEN_WHITESPACE;
+    });
+    joinTokenLines(logItem);
+    while (logItem.length && logItem[0].type === TOKEN_WHITESPACE) logItem.shift();
+    while (logItem.length && logItem[logItem.length - 1].type === TOKEN_WHITESPACE) logItem.pop();
+    return logItem;
+  });
+  return { tokens: [], logItems: logItems.filter((logItem: Token[]) => logItem.length > 0) };
+}
@@ -32,7 +32,11 @@ const config = {
         exclude: /node_modules/,
         use: [
           {
-            loader: 'ts-loader'
+            loader: 'ts-loader',
+            options: {
+              // keep the dynamic imports so that lazily loaded modules like the typescript compiler end up in chunks of their own
+              compilerOptions: { module: 'esnext', moduleResolution: 'node' }
+            }
           }
         ]
       }